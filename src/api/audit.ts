@@ -0,0 +1,74 @@
+import type { Channels } from '../lib/types';
+
+export type PoolLeak<A extends Channels = Float32Array> = Readonly<{
+  cell: A;
+  stack: string;
+}>;
+
+type Allocation = Readonly<{
+  id: number;
+  stack: string;
+}>;
+
+export interface Audit<A extends Channels = Float32Array> {
+  take: (cell: A) => void;
+  drop: (cell: A) => void;
+  setDebug: (enabled: boolean, free: readonly A[], count: number) => void;
+  reset: (free: readonly A[], count: number) => void;
+  markCheckpoint: () => number;
+  reportLeaks: (since?: number) => PoolLeak<A>[];
+}
+
+export function createAudit<A extends Channels>(owns: (cell: A) => boolean): Audit<A> {
+  let live: Map<A, Allocation> | null = null;
+  let released = new WeakSet<A>();
+  let serial = 0;
+
+  const reset = (free: readonly A[], count: number): void => {
+    if (!live) return;
+    live.clear();
+    released = new WeakSet();
+    for (let i = 0; i < count; i++) {
+      released.add(free[i]);
+    }
+  };
+
+  const take = (cell: A): void => {
+    if (!live) return;
+    released.delete(cell);
+    live.set(cell, { id: ++serial, stack: new Error('allocation').stack ?? '' });
+  };
+
+  const drop = (cell: A): void => {
+    if (!live) return;
+    if (live.delete(cell)) {
+      released.add(cell);
+      return;
+    }
+    if (released.has(cell)) {
+      throw new Error('matrix was already dropped');
+    }
+    if (!owns(cell)) {
+      throw new Error('matrix does not belong to this pool');
+    }
+    released.add(cell);
+  };
+
+  return {
+    take,
+    drop,
+    setDebug: (enabled: boolean, free: readonly A[], count: number): void => {
+      live = enabled ? new Map() : null;
+      reset(free, count);
+    },
+    reset,
+    markCheckpoint: (): number => serial,
+    reportLeaks: (since = 0): PoolLeak<A>[] => {
+      const leaks: PoolLeak<A>[] = [];
+      live?.forEach(({ id, stack }, cell) => {
+        if (id > since) leaks.push({ cell, stack });
+      });
+      return leaks;
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import type { Space } from '../lib/types';
+import { getConverter } from './convert';
+
+export type BufferLayout = 'interleaved' | 'planar';
+
+export type BufferOptions = Readonly<{
+  stride?: number;
+  offset?: number;
+  count?: number;
+  layout?: BufferLayout;
+}>;
+
+const IN = new Float32Array(3);
+const OUT = new Float32Array(3);
+
+export function convertBuffer(
+  input: Float32Array,
+  output: Float32Array,
+  from: Space,
+  to: Space,
+  options: BufferOptions = {},
+): void {
+  const { offset = 0, layout = 'interleaved' } = options;
+  const fn = getConverter(from, to);
+
+  if (layout === 'planar') {
+    const plane = options.stride ?? options.count ?? Math.trunc((input.length - offset) / 3);
+    const count = options.count ?? plane;
+    if (plane < count) {
+      throw new Error('stride must be at least count');
+    }
+    const end = offset + 2 * plane + count;
+    if (end > input.length || end > output.length) {
+      throw new Error('buffer is too small');
+    }
+
+    const p1 = offset + plane;
+    const p2 = p1 + plane;
+    for (let i = 0; i < count; i++) {
+      IN[0] = input[offset + i];
+      IN[1] = input[p1 + i];
+      IN[2] = input[p2 + i];
+      fn(IN, OUT);
+      output[offset + i] = OUT[0];
+      output[p1 + i] = OUT[1];
+      output[p2 + i] = OUT[2];
+    }
+    return;
+  }
+
+  const stride = options.stride ?? 3;
+  if (stride < 3) {
+    throw new Error('stride must be at least 3');
+  }
+  const count = options.count ?? Math.trunc((input.length - offset) / stride);
+  const end = offset + (count - 1) * stride + 3;
+  if (count > 0 && (end > input.length || end > output.length)) {
+    throw new Error('buffer is too small');
+  }
+
+  const copy = input !== output;
+  for (let i = 0, o = offset; i < count; i++, o += stride) {
+    IN[0] = input[o];
+    IN[1] = input[o + 1];
+    IN[2] = input[o + 2];
+    fn(IN, OUT);
+    output[o] = OUT[0];
+    output[o + 1] = OUT[1];
+    output[o + 2] = OUT[2];
+    if (copy) {
+      for (let c = 3; c < stride && o + c < input.length; c++) {
+        output[o + c] = input[o + c];
+      }
+    }
+  }
+}
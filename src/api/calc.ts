@@ -0,0 +1,72 @@
+import type { Call, Node, Token } from './tokens';
+import { ParseFailure } from './tokens';
+
+export type Leaf = (token: Token) => number;
+
+const isOperator = (node: Node | undefined, a: string, b: string): node is Token =>
+  node?.kind === 'delim' && (node.text === a || node.text === b);
+
+const sum = (nodes: readonly Node[], end: number, leaf: Leaf): number => {
+  let i = 0;
+
+  const term = (): number => {
+    const node = nodes.at(i++);
+    if (!node || node.kind === 'delim') {
+      throw new ParseFailure(node?.start ?? end, 'expected a value');
+    }
+    return evaluate(node, leaf);
+  };
+
+  const product = (): number => {
+    let value = term();
+    while (isOperator(nodes[i], '*', '/')) {
+      const op = nodes[i++].text;
+      const right = term();
+      value = op === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  let value = product();
+  while (i < nodes.length) {
+    const op = nodes[i++];
+    if (!isOperator(op, '+', '-')) throw new ParseFailure(op.start, 'expected an operator');
+    const right = product();
+    value = op.text === '+' ? value + right : value - right;
+  }
+  return value;
+};
+
+const list = (call: Call, leaf: Leaf): number[] => {
+  const values: number[] = [];
+  let from = 0;
+
+  for (let i = 0; i <= call.args.length; i++) {
+    const node = call.args.at(i);
+    if (node === undefined || (node.kind === 'delim' && node.text === ',')) {
+      const end = node?.start ?? call.end;
+      values.push(sum(call.args.slice(from, i), end, leaf));
+      from = i + 1;
+    }
+  }
+  return values;
+};
+
+export function evaluate(node: Node, leaf: Leaf): number {
+  if (node.kind !== 'call') return leaf(node);
+
+  const name = node.text.toLowerCase();
+  if (name === 'calc' || name === '(') return sum(node.args, node.end, leaf);
+
+  if (name === 'min' || name === 'max') {
+    const values = list(node, leaf);
+    return name === 'min' ? Math.min(...values) : Math.max(...values);
+  }
+  if (name === 'clamp') {
+    const values = list(node, leaf);
+    if (values.length !== 3) throw new ParseFailure(node.start, 'clamp needs 3 arguments');
+    return Math.max(values[0], Math.min(values[1], values[2]));
+  }
+
+  throw new ParseFailure(node.start, 'unsupported math function');
+}
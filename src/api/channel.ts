@@ -0,0 +1,90 @@
+import type { ChannelName, Channels, Color, Space } from '../lib/types';
+
+export type ChannelUnit = 'number' | 'percent' | 'degree';
+
+export type ChannelInfo = Readonly<{
+  name: string;
+  range: readonly [min: number, max: number];
+  unit: ChannelUnit;
+}>;
+
+export type ChannelLayout = Readonly<{
+  channels: readonly [ChannelInfo, ChannelInfo, ChannelInfo];
+  polar: boolean;
+  hue: number;
+}>;
+
+const LAYOUTS: Record<string, ChannelLayout> = {};
+const INDEXES: Record<string, Record<string, number>> = {};
+
+const channel = (name: string, min: number, max: number, unit: ChannelUnit = 'number') => ({
+  name,
+  range: [min, max] as const,
+  unit,
+});
+
+const HUE = channel('h', 0, 360, 'degree');
+const RGB = [channel('r', 0, 1), channel('g', 0, 1), channel('b', 0, 1)] as const;
+const XYZ = [channel('x', 0, 1), channel('y', 0, 1), channel('z', 0, 1)] as const;
+
+const indexOf = (space: Space, name: string): number => {
+  const index = INDEXES[space] as Record<string, number> | undefined;
+  const i = index?.[name];
+  if (i === undefined) {
+    throw new Error(`unknown channel ${name} for ${space}`);
+  }
+  return i;
+};
+
+export function defineChannels(
+  space: Space,
+  channels: readonly [ChannelInfo, ChannelInfo, ChannelInfo],
+): void {
+  const hue = channels.findIndex((c) => c.unit === 'degree');
+  const index: Record<string, number> = {};
+  for (let i = 0; i < 3; i++) {
+    index[channels[i].name] = i;
+  }
+
+  LAYOUTS[space] = { channels, polar: hue >= 0, hue };
+  INDEXES[space] = index;
+}
+
+export function findChannels(space: Space): ChannelLayout | undefined {
+  return LAYOUTS[space];
+}
+
+export function getChannel<S extends Space>(
+  color: Color<S, Channels>,
+  name: ChannelName<S>,
+): number {
+  return color.value[indexOf(color.space, name)];
+}
+
+export function setChannel<S extends Space>(
+  color: Color<S, Channels>,
+  name: ChannelName<S>,
+  value: number,
+): void {
+  color.value[indexOf(color.space, name)] = value;
+}
+
+defineChannels('rgb', RGB);
+defineChannels('lrgb', RGB);
+defineChannels('p3', RGB);
+defineChannels('lp3', RGB);
+defineChannels('rec2020', RGB);
+defineChannels('lrec2020', RGB);
+defineChannels('a98', RGB);
+defineChannels('la98', RGB);
+defineChannels('prophoto', RGB);
+defineChannels('lprophoto', RGB);
+defineChannels('xyz50', XYZ);
+defineChannels('xyz65', XYZ);
+defineChannels('hsl', [HUE, channel('s', 0, 1, 'percent'), channel('l', 0, 1, 'percent')]);
+defineChannels('hsv', [HUE, channel('s', 0, 1, 'percent'), channel('v', 0, 1, 'percent')]);
+defineChannels('hwb', [HUE, channel('w', 0, 1, 'percent'), channel('b', 0, 1, 'percent')]);
+defineChannels('lab', [channel('l', 0, 1), channel('a', -125, 125), channel('b', -125, 125)]);
+defineChannels('lch', [channel('l', 0, 1), channel('c', 0, 150), HUE]);
+defineChannels('oklab', [channel('l', 0, 1), channel('a', -0.4, 0.4), channel('b', -0.4, 0.4)]);
+defineChannels('oklch', [channel('l', 0, 1), channel('c', 0, 0.4), HUE]);
@@ -0,0 +1,74 @@
+import type { Color, Mutable, Space } from '../lib/types';
+import { convertColor64 } from './convert';
+import { createPool64 } from './pool';
+import type { ExhaustionPolicy } from './pool';
+
+export { DEAD_CELL_64 } from './pool';
+
+const POOL = createPool64({ initial: 2048 });
+
+export function createMatrix64(): Float64Array {
+  return POOL.createMatrix();
+}
+
+export function dropMatrix64(arr: Float64Array): void {
+  POOL.dropMatrix(arr);
+}
+
+export function createColor64<S extends Space>(
+  space: S,
+  values: Float64Array,
+  alpha = 1,
+): Color<S, Float64Array> {
+  return POOL.createColor(space, values, alpha);
+}
+
+export function dropColor64<S extends Space>(color: Color<S, Float64Array>): void {
+  POOL.dropColor(color);
+}
+
+export function cloneColor64<S extends Space>(
+  color: Color<S, Float64Array>,
+): Color<S, Float64Array> {
+  return POOL.cloneColor(color);
+}
+
+export function deriveColor64<S extends Space, T extends Space>(
+  color: Color<S, Float64Array>,
+  to: T,
+): Color<T, Float64Array> {
+  return POOL.deriveColor(color, to);
+}
+
+export function mutateColor64<S extends Space>(
+  color: Color<S, Float64Array>,
+  to: S,
+): asserts color is Color<S, Float64Array> {
+  const from = color.space;
+  if (from === (to as string)) return;
+
+  convertColor64(color.value, color.value, from, to);
+
+  const ref = color as Mutable<Color<S, Float64Array>>;
+  ref.space = to;
+}
+
+export function mountMatrix64(size: number): void {
+  POOL.mountMatrix(size);
+}
+
+export function clearMatrix64(): void {
+  POOL.clearMatrix();
+}
+
+export function countMatrix64(): number {
+  return POOL.countMatrix();
+}
+
+export function setExhaustion64(policy: ExhaustionPolicy, onExhausted?: () => void): void {
+  POOL.setExhaustion(policy, onExhausted);
+}
+
+export function countDeadCells64(): number {
+  return POOL.countDeadCells();
+}
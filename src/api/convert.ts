@@ -25,11 +25,30 @@ import {
 } from '../lib/oklab';
 import { labToLch, lchToLab, oklabToOklch, oklchToOklab } from '../lib/polar';
 import { hslToHsv, hsvToHsl, hsvToHwb, hsvToRgb, hwbToHsv, rgbToHsv } from '../lib/srgb';
-import type { Space } from '../lib/types';
-
-type ConvertFn = (input: Float32Array, output: Float32Array) => void;
+import type { BuiltinSpace, Channels, ConvertFn, Space } from '../lib/types';
+import {
+  a98ToLa98,
+  la98ToA98,
+  la98ToXyz65,
+  lp3ToLrgb,
+  lp3ToP3,
+  lp3ToXyz65,
+  lprophotoToProphoto,
+  lprophotoToXyz50,
+  lrec2020ToRec2020,
+  lrec2020ToXyz65,
+  lrgbToLp3,
+  p3ToLp3,
+  prophotoToLprophoto,
+  rec2020ToLrec2020,
+  xyz50ToLprophoto,
+  xyz65ToLa98,
+  xyz65ToLp3,
+  xyz65ToLrec2020,
+} from '../lib/wide';
+import { bake, fuse } from './fuse';
 
-const GRAPH: Record<Space, Partial<Record<Space, ConvertFn>>> = {
+const GRAPH: Record<BuiltinSpace, Partial<Record<Space, ConvertFn>>> = {
   rgb: { hsv: rgbToHsv, lrgb: rgbToLrgb },
   hsl: { hsv: hslToHsv },
   hsv: { rgb: hsvToRgb, hsl: hsvToHsl, hwb: hsvToHwb },
@@ -44,11 +63,34 @@ const GRAPH: Record<Space, Partial<Record<Space, ConvertFn>>> = {
     oklab: lrgbToOklab,
     xyz50: lrgbToXyz50,
     xyz65: lrgbToXyz65,
+    lp3: lrgbToLp3,
+  },
+  xyz50: {
+    lab: xyz50ToLab,
+    oklab: xyz50ToOklab,
+    lrgb: xyz50ToLrgb,
+    xyz65: xyz50ToXyz65,
+    lprophoto: xyz50ToLprophoto,
   },
-  xyz50: { lab: xyz50ToLab, oklab: xyz50ToOklab, lrgb: xyz50ToLrgb, xyz65: xyz50ToXyz65 },
-  xyz65: { lab: xyz65ToLab, oklab: xyz65ToOklab, lrgb: xyz65ToLrgb, xyz50: xyz65ToXyz50 },
+  xyz65: {
+    lab: xyz65ToLab,
+    oklab: xyz65ToOklab,
+    lrgb: xyz65ToLrgb,
+    xyz50: xyz65ToXyz50,
+    lp3: xyz65ToLp3,
+    lrec2020: xyz65ToLrec2020,
+    la98: xyz65ToLa98,
+  },
+  p3: { lp3: p3ToLp3 },
+  lp3: { p3: lp3ToP3, lrgb: lp3ToLrgb, xyz65: lp3ToXyz65 },
+  rec2020: { lrec2020: rec2020ToLrec2020 },
+  lrec2020: { rec2020: lrec2020ToRec2020, xyz65: lrec2020ToXyz65 },
+  a98: { la98: a98ToLa98 },
+  la98: { a98: la98ToA98, xyz65: la98ToXyz65 },
+  prophoto: { lprophoto: prophotoToLprophoto },
+  lprophoto: { prophoto: lprophotoToProphoto, xyz50: lprophotoToXyz50 },
 };
-const SPACES: Space[] = [
+const SPACES: BuiltinSpace[] = [
   'rgb',
   'hsl',
   'hsv',
@@ -60,8 +102,17 @@ const SPACES: Space[] = [
   'lrgb',
   'xyz50',
   'xyz65',
+  'p3',
+  'lp3',
+  'rec2020',
+  'lrec2020',
+  'a98',
+  'la98',
+  'prophoto',
+  'lprophoto',
 ];
-const COUNT = SPACES.length;
+let COUNT = SPACES.length;
+const NAMES: Space[] = [...SPACES];
 const IDS: Record<string, number> = Object.fromEntries(SPACES.map((name, i) => [name, i]));
 const ADJACENCY = SPACES.map((name) => {
   const connections = GRAPH[name] as Record<string, ConvertFn>;
@@ -71,14 +122,13 @@ const ADJACENCY = SPACES.map((name) => {
   }));
 });
 
-function getPath(start: number, target: number): ConvertFn[] {
-  if (start === target) return [];
+function getRoute(start: number, target: number): number[] {
+  if (start === target) return [start];
   const queue = new Int16Array(COUNT);
   let head = 0;
   let tail = 0;
   queue[tail++] = start;
   const parents = new Int16Array(COUNT).fill(-1);
-  const stepFns = Array.from<unknown, ConvertFn | null>({ length: COUNT }, () => null);
   while (head < tail) {
     const curr = queue[head++];
     if (curr === target) {
@@ -86,93 +136,86 @@ function getPath(start: number, target: number): ConvertFn[] {
     }
     const neighbors = ADJACENCY[curr];
     for (let i = 0; i < neighbors.length; i++) {
-      const neighbor = neighbors[i];
-      const { to, fn } = neighbor;
+      const { to } = neighbors[i];
       if (parents[to] === -1 && to !== start) {
         parents[to] = curr;
-        stepFns[to] = fn;
         queue[tail++] = to;
       }
     }
   }
-  const path: ConvertFn[] = [];
+  const route: number[] = [];
   let curr = target;
   while (curr !== start) {
-    const fn = stepFns[curr]!;
-    path.push(fn);
+    route.push(curr);
     curr = parents[curr];
   }
-  return path.toReversed();
+  route.push(start);
+  return route.toReversed();
+}
+
+function getPath(start: number, target: number): ConvertFn[] {
+  const route = getRoute(start, target);
+  const path: ConvertFn[] = [];
+  for (let n = 1; n < route.length; n++) {
+    const neighbors = ADJACENCY[route[n - 1]];
+    const edge = neighbors.find((neighbor) => neighbor.to === route[n])!;
+    path.push(edge.fn);
+  }
+  return path;
 }
 
 const R1 = new Float32Array(3);
 const R2 = new Float32Array(3);
+const D1 = new Float64Array(3);
+const D2 = new Float64Array(3);
 
-function bake(steps: Readonly<ConvertFn[]>): ConvertFn {
-  const len = steps.length;
-  switch (len) {
-    case 0:
-      return (i, o) => {
-        o[0] = i[0];
-        o[1] = i[1];
-        o[2] = i[2];
-      };
-    case 1: {
-      const f0 = steps[0];
-      return (i, o) => {
-        f0(i, o);
-      };
-    }
-    case 2: {
-      const f0 = steps[0];
-      const f1 = steps[1];
-      return (i, o) => {
-        f0(i, R1);
-        f1(R1, o);
-      };
-    }
-    case 3: {
-      const f0 = steps[0];
-      const f1 = steps[1];
-      const f2 = steps[2];
-      return (i, o) => {
-        f0(i, R1);
-        f1(R1, R2);
-        f2(R2, o);
-      };
-    }
-    case 4: {
-      const f0 = steps[0];
-      const f1 = steps[1];
-      const f2 = steps[2];
-      const f3 = steps[3];
-      return (i, o) => {
-        f0(i, R1);
-        f1(R1, R2);
-        f2(R2, R1);
-        f3(R1, o);
-      };
+function compile(from: number, to: number): ConvertFn {
+  return bake(fuse(getPath(from, to)), R1, R2);
+}
+
+function compile64(from: number, to: number): ConvertFn {
+  return bake(fuse(getPath(from, to), true), D1, D2);
+}
+
+function extend(
+  table: Readonly<ConvertFn[]>,
+  prev: number,
+  next: number,
+  build: (from: number, to: number) => ConvertFn,
+): ConvertFn[] {
+  return Array.from<unknown, ConvertFn>({ length: next * next }, (_, index) => {
+    const from = Math.trunc(index / next);
+    const to = index % next;
+    if (from < prev && to < prev) {
+      return table[from * prev + to];
     }
-    default:
-      return (i, o) => {
-        let src = i;
-        let dst = R1;
-        for (let n = 0; n < len - 1; n++) {
-          steps[n](src, dst);
-          const next = src === R1 ? R2 : R1;
-          src = dst;
-          dst = next;
-        }
-        steps[len - 1](src, o);
-      };
+    return build(from, to);
+  });
+}
+
+let DISPATCH = extend([], 0, COUNT, compile);
+let DISPATCH64 = extend([], 0, COUNT, compile64);
+
+function getId(space: Space): number {
+  const id = IDS[space];
+  if (id === undefined) {
+    throw new Error(`space "${space}" is not defined`);
   }
+  return id;
 }
 
-const DISPATCH = Array.from<unknown, ConvertFn>({ length: COUNT * COUNT }, (_, index) => {
-  const from = Math.trunc(index / COUNT);
-  const to = index % COUNT;
-  return bake(getPath(from, to));
-});
+const MISSING = new Float32Array(3);
+const MISSING64 = new Float64Array(3);
+
+const hasMissing = (v: Channels): boolean =>
+  Number.isNaN(v[0]) || Number.isNaN(v[1]) || Number.isNaN(v[2]);
+
+const zeroMissing = <V extends Channels>(input: V, scratch: V): V => {
+  for (let i = 0; i < 3; i++) {
+    scratch[i] = Number.isNaN(input[i]) ? 0 : input[i];
+  }
+  return scratch;
+};
 
 export function convertColor(
   input: Float32Array,
@@ -182,5 +225,59 @@ export function convertColor(
 ): void {
   const fromId = IDS[from];
   const toId = IDS[to];
-  DISPATCH[fromId * COUNT + toId](input, output);
+  const source = hasMissing(input) ? zeroMissing(input, MISSING) : input;
+  DISPATCH[fromId * COUNT + toId](source, output);
+}
+
+export function convertColor64(
+  input: Float64Array,
+  output: Float64Array,
+  from: Space,
+  to: Space,
+): void {
+  const fromId = IDS[from];
+  const toId = IDS[to];
+  const source = hasMissing(input) ? zeroMissing(input, MISSING64) : input;
+  DISPATCH64[fromId * COUNT + toId](source, output);
+}
+
+export function getConverter(from: Space, to: Space): ConvertFn {
+  const fn = DISPATCH[getId(from) * COUNT + getId(to)];
+  return (input, output) => {
+    fn(hasMissing(input) ? zeroMissing(input, MISSING) : input, output);
+  };
+}
+
+export function linkSpace(id: Space, hub: Space, toHub: ConvertFn, fromHub: ConvertFn): void {
+  if (IDS[id] !== undefined) {
+    throw new Error(`space "${id}" is already defined`);
+  }
+  const hubId = getId(hub);
+
+  const prev = COUNT;
+  const next = prev + 1;
+
+  IDS[id] = prev;
+  NAMES.push(id);
+  ADJACENCY.push([{ to: hubId, fn: toHub }]);
+  ADJACENCY[hubId].push({ to: prev, fn: fromHub });
+  COUNT = next;
+
+  DISPATCH = extend(DISPATCH, prev, next, compile);
+  DISPATCH64 = extend(DISPATCH64, prev, next, compile64);
+}
+
+export function getConversionPath(from: Space, to: Space): Space[] {
+  return getRoute(getId(from), getId(to)).map((id) => NAMES[id]);
+}
+
+export function explainConversion(input: Float32Array, from: Space, to: Space): Float32Array[] {
+  const steps = getPath(getId(from), getId(to));
+  const values = [Float32Array.from(input)];
+  for (let n = 0; n < steps.length; n++) {
+    const value = new Float32Array(3);
+    steps[n](values[n], value);
+    values.push(value);
+  }
+  return values;
 }
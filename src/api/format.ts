@@ -1,4 +1,6 @@
 import type { Color, Space } from '../lib/types';
+import { getColorName } from './named';
+import { findSpace } from './space';
 
 const INT = Array.from({ length: 257 }, (_, i) => String(i));
 const HEX_L = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, '0')[0]);
@@ -26,15 +28,15 @@ const serialize = (v: number, f: number, u: string): string => {
   return Math.trunc(v * f + bias) / f + u;
 };
 
-const toByte = (n: number): number => Math.max(0, Math.min(255, Math.trunc(n * 255 + 0.5)));
+const toByte = (n: number): number => (n > 0 ? Math.min(255, Math.trunc(n * 255 + 0.5)) : 0);
 
 function rgbToHex(v: Float32Array, a: number | undefined): string {
   const r = toByte(v[0]);
   const g = toByte(v[1]);
   const b = toByte(v[2]);
   let s = '#' + HEX_L[r] + HEX_R[r] + HEX_L[g] + HEX_R[g] + HEX_L[b] + HEX_R[b];
-  if (a !== undefined && a < 1) {
-    const ai = a < 0 ? 0 : Math.trunc(a * 255 + 0.5);
+  if (a !== undefined && !(a >= 1)) {
+    const ai = toByte(a);
     s += HEX_L[ai] + HEX_R[ai];
   }
   return s;
@@ -140,6 +142,98 @@ const xyz65ToCss = (v: Float32Array, f: number, a: string) =>
   a +
   END;
 
+const p3ToCss = (v: Float32Array, f: number, a: string) =>
+  'color(display-p3 ' +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
+const lp3ToCss = (v: Float32Array, f: number, a: string) =>
+  'color(display-p3-linear ' +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
+const rec2020ToCss = (v: Float32Array, f: number, a: string) =>
+  'color(rec2020 ' +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
+const lrec2020ToCss = (v: Float32Array, f: number, a: string) =>
+  'color(rec2020-linear ' +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
+const a98ToCss = (v: Float32Array, f: number, a: string) =>
+  'color(a98-rgb ' +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
+const la98ToCss = (v: Float32Array, f: number, a: string) =>
+  'color(a98-rgb-linear ' +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
+const prophotoToCss = (v: Float32Array, f: number, a: string) =>
+  'color(prophoto-rgb ' +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
+const lprophotoToCss = (v: Float32Array, f: number, a: string) =>
+  'color(prophoto-rgb-linear ' +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
+const customToCss = (id: string, v: Float32Array, f: number, a: string) =>
+  'color(--' +
+  id +
+  BLANK +
+  serialize(v[0], f, EMPTY) +
+  BLANK +
+  serialize(v[1], f, EMPTY) +
+  BLANK +
+  serialize(v[2], f, EMPTY) +
+  a +
+  END;
+
 const FORMATTERS: Record<string, (v: Float32Array, f: number, a: string) => string> = {
   rgb: rgbToCss,
   hsl: hslToCss,
@@ -151,11 +245,29 @@ const FORMATTERS: Record<string, (v: Float32Array, f: number, a: string) => stri
   lrgb: lrgbToCss,
   xyz50: xyz50ToCss,
   xyz65: xyz65ToCss,
+  p3: p3ToCss,
+  lp3: lp3ToCss,
+  rec2020: rec2020ToCss,
+  lrec2020: lrec2020ToCss,
+  a98: a98ToCss,
+  la98: la98ToCss,
+  prophoto: prophotoToCss,
+  lprophoto: lprophotoToCss,
 };
 
-export function formatCss<S extends Space>(color: Color<S>, asHex = false, precision = 2): string {
+export function formatCss<S extends Space>(
+  color: Color<S>,
+  asHex = false,
+  precision = 2,
+  asName = false,
+): string {
   const { space, value, alpha } = color;
 
+  if (asName) {
+    const name = getColorName(color);
+    if (name !== null) return name;
+  }
+
   if (asHex && space === 'rgb') {
     return rgbToHex(value, alpha);
   }
@@ -164,5 +276,14 @@ export function formatCss<S extends Space>(color: Color<S>, asHex = false, preci
   const alphaPart =
     alpha === undefined || alpha >= 1 ? EMPTY : SLASH + serialize(alpha, factor, EMPTY);
 
-  return FORMATTERS[space](value, factor, alphaPart);
+  const format = FORMATTERS[space];
+  if (format !== undefined) {
+    return format(value, factor, alphaPart);
+  }
+
+  const custom = findSpace(space);
+  if (custom?.formatter) {
+    return custom.formatter(color, precision);
+  }
+  return customToCss(space, value, factor, alphaPart);
 }
@@ -0,0 +1,229 @@
+import { xyz50ToXyz65, xyz65ToXyz50 } from '../lib/chroma';
+import {
+  labToLrgb,
+  labToXyz50,
+  labToXyz65,
+  lrgbToLab,
+  xyz50ToLab,
+  xyz65ToLab,
+} from '../lib/cielab';
+import {
+  lrgbToRgb,
+  lrgbToRgbExact,
+  lrgbToXyz50,
+  lrgbToXyz65,
+  rgbToLrgb,
+  rgbToLrgbExact,
+  xyz50ToLrgb,
+  xyz65ToLrgb,
+} from '../lib/linear';
+import { compileMatrix, extractMatrix, invertMatrix, multiplyMatrix } from '../lib/matrix';
+import {
+  lmsToLrgb,
+  lmsToOklab,
+  lmsToXyz50,
+  lmsToXyz65,
+  lrgbToLms,
+  lrgbToOklab,
+  oklabToLms,
+  oklabToLmsExact,
+  oklabToLrgb,
+  oklabToXyz50,
+  oklabToXyz65,
+  xyz50ToLms,
+  xyz50ToOklab,
+  xyz65ToLms,
+  xyz65ToOklab,
+} from '../lib/oklab';
+import type { Channels, ConvertFn } from '../lib/types';
+import {
+  la98ToXyz65,
+  lp3ToLrgb,
+  lp3ToXyz65,
+  lprophotoToXyz50,
+  lrec2020ToXyz65,
+  lrgbToLp3,
+  xyz50ToLprophoto,
+  xyz65ToLa98,
+  xyz65ToLp3,
+  xyz65ToLrec2020,
+} from '../lib/wide';
+
+const LINEAR: ConvertFn[] = [
+  xyz50ToXyz65,
+  xyz65ToXyz50,
+  lrgbToXyz50,
+  lrgbToXyz65,
+  xyz50ToLrgb,
+  xyz65ToLrgb,
+  lrgbToLms,
+  lmsToLrgb,
+  xyz50ToLms,
+  lmsToXyz50,
+  xyz65ToLms,
+  lmsToXyz65,
+  lp3ToLrgb,
+  lrgbToLp3,
+  lp3ToXyz65,
+  xyz65ToLp3,
+  lrec2020ToXyz65,
+  xyz65ToLrec2020,
+  la98ToXyz65,
+  xyz65ToLa98,
+  lprophotoToXyz50,
+  xyz50ToLprophoto,
+];
+const MATRICES = new Map(LINEAR.map((fn) => [fn, extractMatrix(fn)]));
+const SPLITS = new Map<ConvertFn, readonly [ConvertFn, ConvertFn]>([
+  [lrgbToLab, [lrgbToXyz50, xyz50ToLab]],
+  [labToLrgb, [labToXyz50, xyz50ToLrgb]],
+  [xyz65ToLab, [xyz65ToXyz50, xyz50ToLab]],
+  [labToXyz65, [labToXyz50, xyz50ToXyz65]],
+  [lrgbToOklab, [lrgbToLms, lmsToOklab]],
+  [oklabToLrgb, [oklabToLms, lmsToLrgb]],
+  [xyz50ToOklab, [xyz50ToLms, lmsToOklab]],
+  [oklabToXyz50, [oklabToLms, lmsToXyz50]],
+  [xyz65ToOklab, [xyz65ToLms, lmsToOklab]],
+  [oklabToXyz65, [oklabToLms, lmsToXyz65]],
+]);
+
+const EXACT = new Map<ConvertFn, ConvertFn>([
+  [rgbToLrgb, rgbToLrgbExact],
+  [lrgbToRgb, lrgbToRgbExact],
+  [oklabToLms, oklabToLmsExact],
+]);
+
+const SRGB = MATRICES.get(lrgbToXyz65)!;
+const D65_D50 = MATRICES.get(xyz65ToXyz50)!;
+const D50_D65 = invertMatrix(D65_D50);
+const LMS = multiplyMatrix(MATRICES.get(lrgbToLms)!, invertMatrix(SRGB));
+const PRECISE = new Map<ConvertFn, Float64Array>();
+
+for (const [forward, inverse, m] of [
+  [xyz65ToXyz50, xyz50ToXyz65, D65_D50],
+  [lrgbToXyz65, xyz65ToLrgb, SRGB],
+  [lrgbToXyz50, xyz50ToLrgb, multiplyMatrix(D65_D50, SRGB)],
+  [xyz65ToLms, lmsToXyz65, LMS],
+  [xyz50ToLms, lmsToXyz50, multiplyMatrix(LMS, D50_D65)],
+  [lrgbToLms, lmsToLrgb, multiplyMatrix(LMS, SRGB)],
+  [lp3ToXyz65, xyz65ToLp3, MATRICES.get(lp3ToXyz65)!],
+  [lp3ToLrgb, lrgbToLp3, multiplyMatrix(invertMatrix(SRGB), MATRICES.get(lp3ToXyz65)!)],
+  [lrec2020ToXyz65, xyz65ToLrec2020, MATRICES.get(lrec2020ToXyz65)!],
+  [la98ToXyz65, xyz65ToLa98, MATRICES.get(la98ToXyz65)!],
+  [lprophotoToXyz50, xyz50ToLprophoto, MATRICES.get(lprophotoToXyz50)!],
+] as const) {
+  PRECISE.set(forward, m);
+  PRECISE.set(inverse, invertMatrix(m));
+}
+
+function isHeadLinear(step: ConvertFn): boolean {
+  const split = SPLITS.get(step);
+  return MATRICES.has(split ? split[0] : step);
+}
+
+function isTailLinear(step: ConvertFn): boolean {
+  const split = SPLITS.get(step);
+  return MATRICES.has(split ? split[1] : step);
+}
+
+export function fuse(steps: Readonly<ConvertFn[]>, precise = false): ConvertFn[] {
+  const len = steps.length;
+  const table = precise ? PRECISE : MATRICES;
+  const expanded: ConvertFn[] = [];
+  for (let n = 0; n < len; n++) {
+    const step = steps[n];
+    const split = SPLITS.get(step);
+    if (
+      split &&
+      (precise ||
+        (n > 0 && MATRICES.has(split[0]) && isTailLinear(steps[n - 1])) ||
+        (n < len - 1 && MATRICES.has(split[1]) && isHeadLinear(steps[n + 1])))
+    ) {
+      expanded.push(split[0], split[1]);
+    } else {
+      expanded.push(step);
+    }
+  }
+
+  if (precise) {
+    for (let n = 0; n < expanded.length; n++) {
+      expanded[n] = EXACT.get(expanded[n]) ?? expanded[n];
+    }
+  }
+
+  const fused: ConvertFn[] = [];
+  let n = 0;
+  while (n < expanded.length) {
+    let matrix = table.get(expanded[n]);
+    if (!matrix || (!precise && !table.has(expanded[n + 1]))) {
+      fused.push(expanded[n++]);
+      continue;
+    }
+    while (n + 1 < expanded.length && table.has(expanded[n + 1])) {
+      matrix = multiplyMatrix(table.get(expanded[++n])!, matrix);
+    }
+    fused.push(compileMatrix(matrix));
+    n++;
+  }
+  return fused;
+}
+
+export function bake(steps: Readonly<ConvertFn[]>, r1: Channels, r2: Channels): ConvertFn {
+  const len = steps.length;
+  switch (len) {
+    case 0:
+      return (i, o) => {
+        o[0] = i[0];
+        o[1] = i[1];
+        o[2] = i[2];
+      };
+    case 1: {
+      const f0 = steps[0];
+      return (i, o) => {
+        f0(i, o);
+      };
+    }
+    case 2: {
+      const f0 = steps[0];
+      const f1 = steps[1];
+      return (i, o) => {
+        f0(i, r1);
+        f1(r1, o);
+      };
+    }
+    case 3: {
+      const f0 = steps[0];
+      const f1 = steps[1];
+      const f2 = steps[2];
+      return (i, o) => {
+        f0(i, r1);
+        f1(r1, r2);
+        f2(r2, o);
+      };
+    }
+    case 4: {
+      const f0 = steps[0];
+      const f1 = steps[1];
+      const f2 = steps[2];
+      const f3 = steps[3];
+      return (i, o) => {
+        f0(i, r1);
+        f1(r1, r2);
+        f2(r2, r1);
+        f3(r1, o);
+      };
+    }
+    default:
+      return (i, o) => {
+        let src = i;
+        let dst = r1;
+        for (let n = 0; n < len - 1; n++) {
+          steps[n](src, dst);
+          const next = src === r1 ? r2 : r1;
+          src = dst;
+          dst = next;
+        }
+        steps[len - 1](src, o);
+      };
+  }
+}
@@ -0,0 +1,252 @@
+import type { Color, Space } from '../lib/types';
+import { findChannels } from './channel';
+import { createMatrix } from './color';
+import { convertColor } from './convert';
+import { findSpace } from './space';
+import type { Call, Node, Token } from './tokens';
+import { ParseFailure } from './tokens';
+import { PREDEFINED } from './units';
+
+export type HueMethod = 'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+type Stop = [color: Color<Space>, weight: number | undefined];
+
+const HUE_METHODS: ReadonlyMap<string, HueMethod> = new Map([
+  ['shorter', 'shorter'],
+  ['longer', 'longer'],
+  ['increasing', 'increasing'],
+  ['decreasing', 'decreasing'],
+]);
+
+const MIX_SPACES: ReadonlyMap<string, Space> = new Map([
+  ...Object.entries(PREDEFINED),
+  ['hsl', 'hsl'],
+  ['hwb', 'hwb'],
+  ['lab', 'lab'],
+  ['lch', 'lch'],
+  ['oklab', 'oklab'],
+  ['oklch', 'oklch'],
+]);
+
+type Analogs = readonly [string, string, string];
+
+const ANALOGS: ReadonlyMap<string, Analogs> = new Map([
+  ['rgb', ['red', 'green', 'blue']],
+  ['xyz', ['red', 'green', 'blue']],
+  ['hsl', ['hue', 'colorfulness', 'lightness']],
+  ['hsv', ['hue', 'colorfulness', '']],
+  ['hwb', ['hue', '', '']],
+  ['lab', ['lightness', 'opposite-a', 'opposite-b']],
+  ['lch', ['lightness', 'colorfulness', 'hue']],
+]);
+
+const UNRELATED: Analogs = ['', '', ''];
+
+type Powerless = (value: Float32Array) => boolean;
+
+const POWERLESS: ReadonlyMap<string, Powerless> = new Map([
+  ['hsl', (v: Float32Array): boolean => Math.abs(v[1]) < 1e-5],
+  ['hwb', (v: Float32Array): boolean => v[1] + v[2] >= 1 - 1e-5],
+]);
+
+const CACHE = new Map<Space, Analogs>();
+
+const A = new Float32Array(3);
+const B = new Float32Array(3);
+
+const normalize = (pA?: number, pB?: number): [weight: number, multiplier: number] => {
+  const a = pA ?? (pB === undefined ? 0.5 : 1 - pB);
+  const b = pB ?? 1 - a;
+  if (a < 0 || a > 1 || b < 0 || b > 1) {
+    throw new Error('mix percentages must be between 0 and 1');
+  }
+
+  const sum = a + b;
+  if (sum === 0) {
+    throw new Error('mix percentages cannot both be zero');
+  }
+  return [b / sum, Math.min(sum, 1)];
+};
+
+const carry = (own: number, other: number): number => (Number.isNaN(own) ? other : own);
+
+const findAnalogs = (space: Space): Analogs => {
+  const cached = CACHE.get(space);
+  if (cached) return cached;
+
+  const names =
+    findChannels(space)
+      ?.channels.map((c) => c.name)
+      .join('') ?? '';
+  const analogs = ANALOGS.get(names) ?? UNRELATED;
+  CACHE.set(space, analogs);
+  return analogs;
+};
+
+export function carryForward(color: Color<Space>, output: Float32Array, space: Space): void {
+  const v = color.value;
+  if (color.space === space) {
+    output.set(v);
+    return;
+  }
+
+  let missing = 0;
+  for (let i = 0; i < 3; i++) {
+    if (Number.isNaN(v[i])) missing |= 1 << i;
+  }
+  convertColor(v, output, color.space, space);
+  if (POWERLESS.get(space)?.(output) === true) output[0] = NaN;
+  if (missing === 0) return;
+
+  const from = findAnalogs(color.space);
+  const to = findAnalogs(space);
+  for (let i = 0; i < 3; i++) {
+    const j = (missing & (1 << i)) === 0 || from[i] === '' ? -1 : to.indexOf(from[i]);
+    if (j >= 0) output[j] = NaN;
+  }
+}
+
+const mixHue = (h1: number, h2: number, w: number, method: HueMethod): number => {
+  const d = h2 - h1;
+  let a = h1;
+  let b = h2;
+
+  if (method === 'shorter') {
+    if (d > 180) a += 360;
+    else if (d < -180) b += 360;
+  } else if (method === 'longer') {
+    if (d > 0 && d < 180) a += 360;
+    else if (d > -180 && d <= 0) b += 360;
+  } else if (method === 'increasing') {
+    if (d < 0) b += 360;
+  } else if (d > 0) {
+    a += 360;
+  }
+
+  const h = a + (b - a) * w;
+  return ((h % 360) + 360) % 360;
+};
+
+const mixInto = (
+  out: Float32Array,
+  space: Space,
+  colorA: Color<Space>,
+  colorB: Color<Space>,
+  w: number,
+  method: HueMethod,
+): number => {
+  carryForward(colorA, A, space);
+  carryForward(colorB, B, space);
+
+  const alphaA = carry(colorA.alpha, colorB.alpha);
+  const alphaB = carry(colorB.alpha, colorA.alpha);
+  const alpha = alphaA + (alphaB - alphaA) * w;
+  const missing = Number.isNaN(alpha);
+  const preA = missing ? 1 : alphaA;
+  const preB = missing ? 1 : alphaB;
+  const hIdx = findChannels(space)?.hue ?? -1;
+
+  for (let i = 0; i < 3; i++) {
+    const x = carry(A[i], B[i]);
+    const y = carry(B[i], A[i]);
+    if (i === hIdx) {
+      out[i] = mixHue(x, y, w, method);
+    } else {
+      const mixed = x * preA + (y * preB - x * preA) * w;
+      out[i] = missing || alpha === 0 ? mixed : mixed / alpha;
+    }
+  }
+
+  return alpha;
+};
+
+export function colorMix<S extends Space>(
+  space: S,
+  colorA: Color<Space>,
+  pA: number | undefined,
+  colorB: Color<Space>,
+  pB?: number,
+  hue: HueMethod = 'shorter',
+): Color<S> {
+  const [w, multiplier] = normalize(pA, pB);
+  const value = createMatrix();
+  const alpha = mixInto(value, space, colorA, colorB, w, hue);
+  return { space, value, alpha: alpha * multiplier };
+}
+
+const readMethod = (args: readonly Node[], end: number): [Space, HueMethod, number] => {
+  const node = args.at(1);
+  if (node?.kind !== 'ident') {
+    throw new ParseFailure(node?.start ?? end, 'expected a color space');
+  }
+
+  const name = node.text.toLowerCase();
+  const space = name.startsWith('--') ? findSpace(node.text.slice(2))?.id : MIX_SPACES.get(name);
+  if (space === undefined) throw new ParseFailure(node.start, 'unknown color space');
+
+  let i = 2;
+  const method = args.at(i);
+  const hue = method?.kind === 'ident' ? HUE_METHODS.get(method.text.toLowerCase()) : undefined;
+  if (method && hue !== undefined) {
+    if (findChannels(space)?.polar !== true) {
+      throw new ParseFailure(method.start, 'hue interpolation needs a polar space');
+    }
+    const keyword = args.at(i + 1);
+    if (keyword?.kind !== 'ident' || keyword.text.toLowerCase() !== 'hue') {
+      throw new ParseFailure(keyword?.start ?? end, 'expected hue');
+    }
+    i += 2;
+  }
+
+  const comma = args.at(i);
+  if (comma?.text !== ',') throw new ParseFailure(comma?.start ?? end, 'expected ,');
+  return [space, hue ?? 'shorter', i + 1];
+};
+
+const readStop = (
+  nodes: readonly Node[],
+  end: number,
+  read: (node: Node) => Color<Space>,
+): Stop => {
+  if (nodes.length === 0) throw new ParseFailure(end, 'expected a color');
+  if (nodes.length > 2) throw new ParseFailure(nodes[2].start, 'too many arguments');
+
+  const percent = nodes.find((node): node is Token => node.kind === 'percent');
+  const color = nodes.find((node) => node !== percent);
+  if (!color) throw new ParseFailure(end, 'expected a color');
+  if (nodes.length === 2 && !percent) {
+    throw new ParseFailure(nodes[1].start, 'expected a percentage');
+  }
+  if (!percent) return [read(color), undefined];
+  if (percent.value < 0 || percent.value > 100) {
+    throw new ParseFailure(percent.start, 'percentage must be between 0% and 100%');
+  }
+  return [read(color), percent.value / 100];
+};
+
+export function parseMix(call: Call, read: (node: Node) => Color<Space>): Color<Space> {
+  const { args } = call;
+  const first = args.at(0);
+  const inline = first?.kind === 'ident' && first.text.toLowerCase() === 'in';
+  const [space, hue, from] = inline
+    ? readMethod(args, call.end)
+    : ['oklab' as Space, 'shorter' as HueMethod, 0];
+
+  const rest = args.slice(from);
+  const comma = rest.findIndex((node) => node.text === ',');
+  if (comma < 0) throw new ParseFailure(call.end, 'expected ,');
+  const tail = rest.slice(comma + 1);
+  const extra = tail.find((node) => node.text === ',');
+  if (extra) throw new ParseFailure(extra.start, 'too many arguments');
+
+  const [colorA, pA] = readStop(rest.slice(0, comma), rest[comma].start, read);
+  const [colorB, pB] = readStop(tail, call.end, read);
+  if (pA === 0 && pB === 0) {
+    throw new ParseFailure(call.start, 'percentages cannot both be zero');
+  }
+
+  const [w, multiplier] = normalize(pA, pB);
+  const value = new Float32Array(3);
+  const alpha = mixInto(value, space, colorA, colorB, w, hue);
+  return { space, value, alpha: alpha * multiplier };
+}
@@ -1,4 +1,9 @@
 import type { Color, Space } from '../lib/types';
+import { findNamedColor } from './named';
+import { findSpace, parseSpace } from './space';
+import { tryParseColor } from './strict';
+import type { Rules } from './units';
+import { ANGLES, UNIT_RULES, findRules, wrapHue } from './units';
 
 const I255 = 1 / 255;
 const SCRATCH = new Uint8Array(256);
@@ -37,7 +42,35 @@ const parseHex = (b: Readonly<Uint8Array>, slen: number): Color<'rgb'> => {
   return { space: 'rgb', value: v, alpha: a };
 };
 
-const parseCss = (b: Readonly<Uint8Array>, slen: number, space: Space): Color<Space> => {
+const readExponent = (b: Readonly<Uint8Array>, slen: number): number => {
+  const sign = b[cur + 1] === 45 ? -1 : 1;
+  let p = b[cur + 1] === 45 || b[cur + 1] === 43 ? cur + 2 : cur + 1;
+  if (p >= slen || b[p] < 48 || b[p] > 57) {
+    return 1;
+  }
+
+  let exp = 0;
+  while (p < slen && b[p] >= 48 && b[p] <= 57) {
+    exp = exp * 10 + (b[p++] - 48);
+  }
+  cur = p;
+  return 10 ** (exp * sign);
+};
+
+const readAngle = (unit: number): number => {
+  const u = unit | 32;
+  if (u === 103) return ANGLES.grad;
+  if (u === 114) return ANGLES.rad;
+  if (u === 116) return ANGLES.turn;
+  return 1;
+};
+
+const parseCss = (
+  b: Readonly<Uint8Array>,
+  slen: number,
+  space: Space,
+  rules: Rules = findRules(space),
+): Color<Space> => {
   const v = new Float32Array(3);
   let alpha = 1;
 
@@ -81,45 +114,106 @@ const parseCss = (b: Readonly<Uint8Array>, slen: number, space: Space): Color<Sp
       }
       cur++;
     }
+    if ((b[cur] | 32) === 101) {
+      val *= readExponent(b, slen);
+    }
 
     const res = val * sign;
-    const isPct = b[cur] === 37;
+    const unit = b[cur];
+    const isPct = unit === 37;
     while (cur < slen && b[cur] > 32 && b[cur] !== 44 && b[cur] !== 47 && b[cur] !== 41) {
       cur++;
     }
 
     if (idx === 3) {
       alpha = isPct ? res * 0.01 : res;
-    } else if (space === 'rgb') {
-      v[idx] = isPct ? res * 0.01 : res * I255;
-    } else if (idx === 0) {
-      if (space === 'hsl' || space === 'hwb') {
-        v[0] = res === 360 ? 360 : ((res % 360) + 360) % 360;
-      } else if (space === 'oklch' || space === 'oklab' || isPct) {
-        v[0] = res * 0.01;
-      } else {
-        v[0] = res;
-      }
-    } else if (idx === 1) {
-      if (space === 'hsl' || space === 'hwb' || (space === 'oklab' && isPct)) {
-        v[1] = res * 0.01;
-      } else {
-        v[1] = res;
-      }
+      continue;
+    }
+
+    const rule = rules[idx];
+    if (rule === 'hue') {
+      v[idx] = wrapHue(res * readAngle(unit));
     } else {
-      if (space === 'hsl' || space === 'hwb') {
-        v[2] = res * 0.01;
-      } else if (space === 'oklch' || space === 'lch') {
-        v[2] = res === 360 ? 360 : ((res % 360) + 360) % 360;
-      } else {
-        v[2] = res;
-      }
+      v[idx] = res * (isPct ? rule[1] : rule[0]);
     }
   }
   return { space, value: v, alpha };
 };
 
+const parsePredefined = (b: Readonly<Uint8Array>, slen: number, s: string): Color<Space> | null => {
+  while (cur < slen && b[cur] <= 32) {
+    cur++;
+  }
+  const tS = cur;
+  while (cur < slen && b[cur] > 32) {
+    cur++;
+  }
+  const tE = cur;
+  const char0 = b[tS];
+  while (cur < slen && b[cur] <= 32) {
+    cur++;
+  }
+  if (char0 === 115) {
+    const space = b[tS + 4] === 45 ? 'lrgb' : 'rgb';
+    return parseCss(b, slen, space, UNIT_RULES);
+  }
+  if (char0 === 120) {
+    const space = b[tS + 5] === 53 ? 'xyz50' : 'xyz65';
+    return parseCss(b, slen, space, UNIT_RULES);
+  }
+  if (char0 === 100) {
+    const space = b[tS + 10] === 45 ? 'lp3' : 'p3';
+    return parseCss(b, slen, space, UNIT_RULES);
+  }
+  if (char0 === 114) {
+    const space = b[tS + 7] === 45 ? 'lrec2020' : 'rec2020';
+    return parseCss(b, slen, space, UNIT_RULES);
+  }
+  if (char0 === 97) {
+    const space = b[tS + 7] === 45 ? 'la98' : 'a98';
+    return parseCss(b, slen, space, UNIT_RULES);
+  }
+  if (char0 === 112) {
+    const space = b[tS + 12] === 45 ? 'lprophoto' : 'prophoto';
+    return parseCss(b, slen, space, UNIT_RULES);
+  }
+  if (char0 === 45) {
+    const space = findSpace(s.slice(tS + 2, tE));
+    if (space) {
+      return parseCss(b, slen, space.id, UNIT_RULES);
+    }
+  }
+  return null;
+};
+
+const isRelative = (b: Readonly<Uint8Array>, slen: number): boolean => {
+  let p = cur;
+  while (p < slen && b[p] <= 32) {
+    p++;
+  }
+  return (
+    p + 4 < slen &&
+    (b[p] | 32) === 102 &&
+    (b[p + 1] | 32) === 114 &&
+    (b[p + 2] | 32) === 111 &&
+    (b[p + 3] | 32) === 109 &&
+    b[p + 4] <= 32
+  );
+};
+
+const hasFunction = (b: Readonly<Uint8Array>, slen: number): boolean => {
+  for (let p = cur; p < slen; p++) {
+    if (b[p] === 40) return true;
+  }
+  return false;
+};
+
 export function parseColor(s: string): Color<Space> {
+  const custom = parseSpace(s);
+  if (custom) {
+    return custom;
+  }
+
   const slen = s.length;
   const b = slen <= 256 ? SCRATCH : new Uint8Array(slen);
   let k = 0;
@@ -139,6 +233,10 @@ export function parseColor(s: string): Color<Space> {
   while (cur < slen && b[cur] !== 40 && b[cur] > 32) {
     cur++;
   }
+  if (b[cur] !== 40) {
+    const named = findNamedColor(s.slice(nS, cur));
+    if (named) return named;
+  }
   const c0 = b[nS];
   const c1 = b[nS + 1];
   const c2 = b[nS + 2];
@@ -148,6 +246,9 @@ export function parseColor(s: string): Color<Space> {
   }
   cur++;
 
+  if ((c0 === 99 && b[nS + 5] === 45) || isRelative(b, slen) || hasFunction(b, slen)) {
+    return tryParseColor(s) ?? { space: 'rgb', value: new Float32Array(3), alpha: 1 };
+  }
   if (c0 === 114) {
     return parseCss(b, slen, 'rgb');
   }
@@ -162,25 +263,8 @@ export function parseColor(s: string): Color<Space> {
     return parseCss(b, slen, space);
   }
   if (c0 === 99) {
-    while (cur < slen && b[cur] <= 32) {
-      cur++;
-    }
-    const tS = cur;
-    while (cur < slen && b[cur] > 32) {
-      cur++;
-    }
-    const char0 = b[tS];
-    while (cur < slen && b[cur] <= 32) {
-      cur++;
-    }
-    if (char0 === 115) {
-      const space = b[tS + 4] === 45 ? 'lrgb' : 'rgb';
-      return parseCss(b, slen, space);
-    }
-    if (char0 === 120) {
-      const space = b[tS + 5] === 53 ? 'xyz50' : 'xyz65';
-      return parseCss(b, slen, space);
-    }
+    const color = parsePredefined(b, slen, s);
+    if (color) return color;
   }
 
   return { space: 'rgb', value: new Float32Array(3), alpha: 1 };
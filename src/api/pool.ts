@@ -0,0 +1,251 @@
+import type { Channels, Color, Space } from '../lib/types';
+import { createAudit } from './audit';
+import type { PoolLeak } from './audit';
+import { convertColor, convertColor64 } from './convert';
+import { createTracker } from './scope';
+import type { Scope } from './scope';
+
+export type ExhaustionPolicy = 'dead' | 'throw' | 'warn' | 'heap' | 'grow';
+
+export type PoolOptions = Readonly<{
+  initial?: number;
+  max?: number;
+  growth?: number;
+  debug?: boolean;
+}>;
+
+export interface BoundColors<A extends Channels = Float32Array> {
+  createColor: <S extends Space>(space: S, values: A, alpha?: number) => Color<S, A>;
+  dropColor: <S extends Space>(color: Color<S, A>) => void;
+  cloneColor: <S extends Space>(color: Color<S, A>) => Color<S, A>;
+  deriveColor: <S extends Space, T extends Space>(color: Color<S, A>, to: T) => Color<T, A>;
+}
+
+export interface Pool<A extends Channels = Float32Array> extends BoundColors<A> {
+  createMatrix: () => A;
+  dropMatrix: (arr: A) => void;
+  openScope: () => Scope<A>;
+  withScope: <T>(fn: (scope: Scope<A>) => T) => T;
+  mountMatrix: (count: number) => void;
+  clearMatrix: () => void;
+  countMatrix: () => number;
+  countCapacity: () => number;
+  setExhaustion: (next: ExhaustionPolicy, onExhausted?: () => void) => void;
+  countDeadCells: () => number;
+  setDebug: (enabled: boolean) => void;
+  markCheckpoint: () => number;
+  reportLeaks: (since?: number) => PoolLeak<A>[];
+}
+
+export type { PoolLeak } from './audit';
+export type { Scope } from './scope';
+
+type Layout<A extends Channels> = Readonly<{
+  dead: A;
+  create: (length: number) => A;
+  slice: (block: A, start: number, end: number) => A;
+  convert: (input: A, output: A, from: Space, to: Space) => void;
+}>;
+
+const CHANNELS = 3;
+
+export const DEAD_CELL: Float32Array = new Float32Array(CHANNELS);
+
+export const DEAD_CELL_64: Float64Array = new Float64Array(CHANNELS);
+
+const FLOAT32: Layout<Float32Array> = {
+  dead: DEAD_CELL,
+  create: (length) => new Float32Array(length),
+  slice: (block, start, end) => block.subarray(start, end),
+  convert: convertColor,
+};
+
+const FLOAT64: Layout<Float64Array> = {
+  dead: DEAD_CELL_64,
+  create: (length) => new Float64Array(length),
+  slice: (block, start, end) => block.subarray(start, end),
+  convert: convertColor64,
+};
+
+const allocate = <A extends Channels>(layout: Layout<A>, count: number): A[] => {
+  const block = layout.create(count * CHANNELS);
+  return Array.from({ length: count }, (_, i) =>
+    layout.slice(block, i * CHANNELS, (i + 1) * CHANNELS),
+  );
+};
+
+const copy = <A extends Channels>(dead: A, dst: A, src: A): void => {
+  if (dst === dead) return;
+  dst[0] = src[0];
+  dst[1] = src[1];
+  dst[2] = src[2];
+};
+
+const resolve = (options: PoolOptions): [initial: number, max: number, growth: number] => {
+  const { initial = 2048, growth = 2 } = options;
+  const max = options.max ?? initial;
+
+  if (!Number.isInteger(initial) || initial < 1) {
+    throw new Error('pool size must be a positive integer');
+  }
+  if (max < initial) {
+    throw new Error('pool max must be at least initial');
+  }
+  if (!(growth > 1)) {
+    throw new Error('pool growth must be greater than 1');
+  }
+
+  return [initial, max, growth];
+};
+
+const bindLayout = <A extends Channels>(
+  layout: Layout<A>,
+  take: () => A,
+  release: (arr: A) => void,
+): BoundColors<A> => ({
+  createColor: <S extends Space>(space: S, values: A, alpha = 1): Color<S, A> => {
+    const value = take();
+    copy(layout.dead, value, values);
+    return { space, value, alpha };
+  },
+  dropColor: <S extends Space>(color: Color<S, A>): void => {
+    release(color.value);
+  },
+  cloneColor: <S extends Space>(color: Color<S, A>): Color<S, A> => {
+    const value = take();
+    copy(layout.dead, value, color.value);
+    return { space: color.space, value, alpha: color.alpha };
+  },
+  deriveColor: <S extends Space, T extends Space>(color: Color<S, A>, to: T): Color<T, A> => {
+    const value = take();
+    if (color.space === (to as string)) {
+      copy(layout.dead, value, color.value);
+    } else {
+      layout.convert(color.value, value, color.space, to);
+    }
+    return { space: to, value, alpha: color.alpha };
+  },
+});
+
+export function bindColors(
+  take: () => Float32Array,
+  release: (arr: Float32Array) => void,
+): BoundColors {
+  return bindLayout(FLOAT32, take, release);
+}
+
+const fallback = <A extends Channels>(layout: Layout<A>, policy: 'throw' | 'heap'): A => {
+  if (policy === 'throw') {
+    throw new Error('matrix pool is exhausted');
+  }
+  return layout.create(CHANNELS);
+};
+
+const buildPool = <A extends Channels>(layout: Layout<A>, options: PoolOptions): Pool<A> => {
+  const [initial, max, growth] = resolve(options);
+  const cache = allocate(layout, initial);
+  const blocks = new Set([cache[0].buffer]);
+  const audit = createAudit((cell: A) => blocks.has(cell.buffer));
+  if (options.debug === true) audit.setDebug(true, cache, initial);
+
+  let size = initial;
+  let head = initial - 1;
+  let policy: ExhaustionPolicy = 'dead';
+  let warned = false;
+  let notify: (() => void) | undefined;
+  let deadCount = 0;
+
+  const append = (count: number): void => {
+    const cells = allocate(layout, count);
+    if (count > 0) blocks.add(cells[0].buffer);
+    for (let i = 0; i < count; i++) {
+      cache[size + i] = cells[i];
+    }
+    size += count;
+  };
+
+  const exhaust = (): A => {
+    const limit = policy === 'grow' ? Infinity : max;
+    const added = Math.min(limit, Math.max(size + 1, Math.floor(size * growth))) - size;
+    if (added > 0) {
+      append(added);
+      cache.reverse();
+      head = added - 2;
+      return cache[added - 1];
+    }
+    if (policy === 'throw' || policy === 'heap') return fallback(layout, policy);
+    if (policy === 'warn' && !warned) {
+      warned = true;
+      notify?.();
+    }
+    deadCount++;
+    return layout.dead;
+  };
+
+  const push = (arr: A): void => {
+    if (arr === layout.dead) return;
+    audit.drop(arr);
+    const h = head;
+    if (h < size - 1) {
+      const next = h + 1;
+      head = next;
+      cache[next] = arr;
+    }
+  };
+
+  const { record, forget, openScope, withScope } = createTracker(push);
+
+  const take = (): A => {
+    const h = head;
+    const cell = h < 0 ? exhaust() : cache[h];
+    if (h >= 0) head = h - 1;
+    if (cell !== layout.dead) {
+      record(cell);
+      audit.take(cell);
+    }
+    return cell;
+  };
+
+  const release = (arr: A): void => {
+    forget(arr);
+    push(arr);
+  };
+
+  return {
+    createMatrix: take,
+    dropMatrix: release,
+    ...bindLayout(layout, take, release),
+    openScope,
+    withScope,
+    mountMatrix: (count: number): void => {
+      if (count > size) append(Math.min(Math.max(size, max), count) - size);
+      head = (count > size ? size : count) - 1;
+      deadCount = 0;
+      audit.reset(cache, head + 1);
+    },
+    clearMatrix: (): void => {
+      head = -1;
+    },
+    countMatrix: (): number => head + 1,
+    countCapacity: (): number => size,
+    setExhaustion: (next: ExhaustionPolicy, onExhausted?: () => void): void => {
+      policy = next;
+      notify = onExhausted;
+      warned = false;
+    },
+    countDeadCells: (): number => deadCount,
+    setDebug: (enabled: boolean): void => {
+      audit.setDebug(enabled, cache, head + 1);
+    },
+    markCheckpoint: audit.markCheckpoint,
+    reportLeaks: audit.reportLeaks,
+  };
+};
+
+export function createPool(options: PoolOptions = {}): Pool {
+  return buildPool(FLOAT32, options);
+}
+
+export function createPool64(options: PoolOptions = {}): Pool<Float64Array> {
+  return buildPool(FLOAT64, options);
+}
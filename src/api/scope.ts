@@ -0,0 +1,87 @@
+import type { Channels, Color, Space } from '../lib/types';
+
+export type Scope<A extends Channels = Float32Array> = Readonly<{
+  keep: <T extends Color<Space, A> | A>(item: T) => T;
+  [Symbol.dispose]: () => void;
+}>;
+
+export interface Tracker<A extends Channels = Float32Array> {
+  record: (cell: A) => void;
+  forget: (cell: A) => void;
+  openScope: () => Scope<A>;
+  withScope: <T>(fn: (scope: Scope<A>) => T) => T;
+}
+
+export function createTracker<A extends Channels>(push: (arr: A) => void): Tracker<A> {
+  const taken: (A | null)[] = [];
+  const index = new Map<A, number>();
+  const marks: number[] = [];
+
+  const track = (cell: A): void => {
+    index.set(cell, taken.length);
+    taken.push(cell);
+  };
+
+  const record = (cell: A): void => {
+    if (marks.length > 0) track(cell);
+  };
+
+  const forget = (cell: A): void => {
+    const i = index.get(cell);
+    if (i === undefined) return;
+    taken[i] = null;
+    index.delete(cell);
+  };
+
+  const openScope = (): Scope<A> => {
+    const mark = taken.length;
+    const depth = marks.length;
+    const kept: A[] = [];
+    let open = true;
+    marks.push(mark);
+
+    return {
+      keep: <T extends Color<Space, A> | A>(item: T): T => {
+        const target: Color<Space, A> | A = item;
+        const cell = 'value' in target ? target.value : target;
+        const i = index.get(cell);
+        if (i !== undefined && i >= mark) {
+          taken[i] = null;
+          index.delete(cell);
+          kept.push(cell);
+        }
+        return item;
+      },
+      [Symbol.dispose]: (): void => {
+        if (!open) return;
+        if (marks.length !== depth + 1) {
+          throw new Error('scopes must be closed in reverse order');
+        }
+        open = false;
+        marks.pop();
+        for (let i = taken.length - 1; i >= mark; i--) {
+          const cell = taken[i];
+          if (cell) {
+            index.delete(cell);
+            push(cell);
+          }
+        }
+        taken.length = mark;
+        if (depth > 0) {
+          for (const cell of kept) track(cell);
+        }
+      },
+    };
+  };
+
+  const withScope = <T>(fn: (scope: Scope<A>) => T): T => {
+    const scope = openScope();
+    try {
+      return fn(scope);
+    } finally {
+      scope[Symbol.dispose]();
+    }
+  };
+
+  return { record, forget, openScope, withScope };
+}
@@ -0,0 +1,108 @@
+import type { BoundColors } from './pool';
+import { DEAD_CELL, bindColors } from './pool';
+
+export interface SharedPool extends BoundColors {
+  buffer: SharedArrayBuffer;
+  createMatrix: () => Float32Array;
+  dropMatrix: (cell: Float32Array) => void;
+  countMatrix: () => number;
+  countCapacity: () => number;
+  indexOf: (cell: Float32Array) => number;
+  cellAt: (index: number) => Float32Array;
+}
+
+const CHANNELS = 3;
+const HEADER = 2;
+const INDEX_BITS = 22;
+const INDEX_MASK = (1 << INDEX_BITS) - 1;
+const TAG_MASK = (1 << (32 - INDEX_BITS)) - 1;
+const MAX_SHARED = INDEX_MASK - 1;
+
+const pack = (previous: number, slot: number): number =>
+  ((((previous >>> INDEX_BITS) + 1) & TAG_MASK) << INDEX_BITS) | slot;
+
+export function createSharedPool(size = 2048): SharedPool {
+  if (!Number.isInteger(size) || size < 1 || size > MAX_SHARED) {
+    throw new Error(`shared pool size must be an integer from 1 to ${MAX_SHARED}`);
+  }
+
+  const buffer = new SharedArrayBuffer((HEADER + size * (CHANNELS + 1)) * 4);
+  const header = new Uint32Array(buffer, 0, HEADER);
+  const links = new Uint32Array(buffer, HEADER * 4, size);
+
+  for (let i = 0; i < size; i++) {
+    links[i] = i;
+  }
+  header[0] = size;
+  header[1] = size;
+
+  return attachPool(buffer);
+}
+
+export function attachPool(buffer: SharedArrayBuffer): SharedPool {
+  const words = buffer.byteLength / 4 - HEADER;
+  const size = words / (CHANNELS + 1);
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error('buffer is not a shared pool');
+  }
+
+  const header = new Uint32Array(buffer, 0, HEADER);
+  const links = new Uint32Array(buffer, HEADER * 4, size);
+  const offset = (HEADER + size) * 4;
+  const data = new Float32Array(buffer, offset, size * CHANNELS);
+  const cells = Array.from({ length: size }, (_, i) =>
+    data.subarray(i * CHANNELS, (i + 1) * CHANNELS),
+  );
+
+  const indexOf = (cell: Float32Array): number => {
+    const index = (cell.byteOffset - offset) / (CHANNELS * 4);
+    return cell.buffer === buffer && cells[index] === cell ? index : -1;
+  };
+
+  const take = (): Float32Array => {
+    for (;;) {
+      const head = Atomics.load(header, 0);
+      const slot = head & INDEX_MASK;
+      if (slot === 0) return DEAD_CELL;
+
+      const next = Atomics.load(links, slot - 1);
+      if (Atomics.compareExchange(header, 0, head, pack(head, next)) === head) {
+        Atomics.sub(header, 1, 1);
+        return cells[slot - 1];
+      }
+    }
+  };
+
+  const release = (cell: Float32Array): void => {
+    if (cell === DEAD_CELL) return;
+    const index = indexOf(cell);
+    if (index < 0) {
+      throw new Error('matrix does not belong to this pool');
+    }
+
+    for (;;) {
+      const head = Atomics.load(header, 0);
+      Atomics.store(links, index, head & INDEX_MASK);
+      if (Atomics.compareExchange(header, 0, head, pack(head, index + 1)) === head) {
+        Atomics.add(header, 1, 1);
+        return;
+      }
+    }
+  };
+
+  return {
+    buffer,
+    createMatrix: take,
+    dropMatrix: release,
+    ...bindColors(take, release),
+    countMatrix: (): number => Atomics.load(header, 1),
+    countCapacity: (): number => size,
+    indexOf,
+    cellAt: (index: number): Float32Array => {
+      if (!Number.isInteger(index) || index < 0 || index >= size) {
+        throw new Error('cell index is out of range');
+      }
+      return cells[index];
+    },
+  };
+}
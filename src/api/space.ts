@@ -0,0 +1,149 @@
+import { lrgbToRgb, rgbToLrgb } from '../lib/linear';
+import {
+  adaptMatrix,
+  compileMatrix,
+  invertMatrix,
+  multiplyMatrix,
+  primariesToXyz,
+  whiteToXyz,
+} from '../lib/matrix';
+import type { Color, ConvertFn, Space } from '../lib/types';
+import type { ChannelInfo } from './channel';
+import { defineChannels } from './channel';
+import { linkSpace } from './convert';
+
+export type SpaceDefinition = Readonly<{
+  id: Space;
+  base: Space;
+  toBase: ConvertFn;
+  fromBase: ConvertFn;
+  channels: readonly [string | ChannelInfo, string | ChannelInfo, string | ChannelInfo];
+  formatter?: (color: Readonly<Color<Space>>, precision: number) => string;
+  parser?: (input: string) => Color<Space> | null;
+}>;
+
+export type Chromaticity = readonly [x: number, y: number];
+
+export type TransferCurve =
+  | 'srgb'
+  | 'linear'
+  | number
+  | Readonly<{
+      toLinear: (v: number) => number;
+      toGamma: (v: number) => number;
+    }>;
+
+export type RgbSpace = Readonly<{
+  primaries: readonly [red: Chromaticity, green: Chromaticity, blue: Chromaticity];
+  white: 'd65' | 'd50' | Chromaticity;
+  transfer?: TransferCurve;
+}>;
+
+const REGISTRY: Record<string, SpaceDefinition> = {};
+const PARSERS: ((input: string) => Color<Space> | null)[] = [];
+
+const WHITE_D65 = new Float64Array([0.95047, 1, 1.08883]);
+const WHITE_D50 = new Float64Array([0.96422, 1, 0.82521]);
+
+const isWhite = (xyz: Float64Array, ref: Float64Array): boolean =>
+  Math.abs(xyz[0] - ref[0]) < 2e-4 && Math.abs(xyz[2] - ref[2]) < 2e-4;
+
+const copy: ConvertFn = (input, output) => {
+  output[0] = input[0];
+  output[1] = input[1];
+  output[2] = input[2];
+};
+
+const createChannelFn = (fn: (v: number) => number): ConvertFn => {
+  return (input, output) => {
+    output[0] = fn(input[0]);
+    output[1] = fn(input[1]);
+    output[2] = fn(input[2]);
+  };
+};
+
+const createGammaFn = (gamma: number): ConvertFn =>
+  createChannelFn((v) => Math.sign(v) * Math.pow(Math.abs(v), gamma));
+
+const resolveTransfer = (transfer: TransferCurve): [ConvertFn, ConvertFn] => {
+  if (transfer === 'srgb') {
+    return [rgbToLrgb, lrgbToRgb];
+  }
+  if (transfer === 'linear') {
+    return [copy, copy];
+  }
+  if (typeof transfer === 'number') {
+    return [createGammaFn(transfer), createGammaFn(1 / transfer)];
+  }
+  return [createChannelFn(transfer.toLinear), createChannelFn(transfer.toGamma)];
+};
+
+const resolveWhite = (white: RgbSpace['white']): Float64Array => {
+  if (white === 'd65') return WHITE_D65;
+  if (white === 'd50') return WHITE_D50;
+
+  const xyz = whiteToXyz(white[0], white[1]);
+  if (isWhite(xyz, WHITE_D65)) return WHITE_D65;
+  if (isWhite(xyz, WHITE_D50)) return WHITE_D50;
+  return xyz;
+};
+
+const toChannel = (channel: string | ChannelInfo): ChannelInfo =>
+  typeof channel === 'string' ? { name: channel, range: [0, 1], unit: 'number' } : channel;
+
+export function registerSpace(definition: SpaceDefinition): void {
+  const { id, base, toBase, fromBase, channels, parser } = definition;
+
+  linkSpace(id, base, toBase, fromBase);
+  defineChannels(id, [toChannel(channels[0]), toChannel(channels[1]), toChannel(channels[2])]);
+  REGISTRY[id] = definition;
+
+  if (parser) {
+    PARSERS.push(parser);
+  }
+}
+
+export function findSpace(id: string): SpaceDefinition | undefined {
+  return REGISTRY[id];
+}
+
+export function parseSpace(input: string): Color<Space> | null {
+  for (let i = 0; i < PARSERS.length; i++) {
+    const color = PARSERS[i](input);
+    if (color) return color;
+  }
+  return null;
+}
+
+export function defineRgbSpace(id: Space, space: RgbSpace): void {
+  const [r, g, b] = space.primaries;
+  const white = resolveWhite(space.white);
+  const primaries = new Float64Array([r[0], r[1], g[0], g[1], b[0], b[1]]);
+
+  let hub: Space = 'xyz65';
+  let toXyz = primariesToXyz(primaries, white);
+
+  if (white === WHITE_D50) {
+    hub = 'xyz50';
+  } else if (white !== WHITE_D65) {
+    toXyz = multiplyMatrix(adaptMatrix(white, WHITE_D65), toXyz);
+  }
+
+  const [decode, encode] = resolveTransfer(space.transfer ?? 'srgb');
+  const toHub = compileMatrix(toXyz);
+  const fromHub = compileMatrix(invertMatrix(toXyz));
+
+  registerSpace({
+    id,
+    base: hub,
+    toBase: (input, output) => {
+      decode(input, output);
+      toHub(output, output);
+    },
+    fromBase: (input, output) => {
+      fromHub(input, output);
+      encode(output, output);
+    },
+    channels: ['r', 'g', 'b'],
+  });
+}
@@ -0,0 +1,259 @@
+import type { Color, Space } from '../lib/types';
+import { evaluate } from './calc';
+import { findChannels } from './channel';
+import { convertColor } from './convert';
+import { parseMix } from './mix';
+import { findNamedColor } from './named';
+import { findSpace, parseSpace } from './space';
+import type { Call, Node, Token } from './tokens';
+import { ParseFailure, group, tokenize } from './tokens';
+import type { Rule, Rules } from './units';
+import { ANGLES, PREDEFINED, UNIT_RULES, findRules, wrapHue } from './units';
+
+export type ParseError = Readonly<{ position: number; reason: string }>;
+
+export type ParseResult =
+  | Readonly<{ ok: true; color: Color<Space> }>
+  | Readonly<{ ok: false; error: ParseError }>;
+
+type Notation = Readonly<{ space: Space; rules: Rules; legacy: boolean }>;
+
+type Refs = Readonly<Record<string, number>>;
+
+const MATH = new Set(['calc', 'min', 'max', 'clamp']);
+
+const define = (space: Space, legacy = false): Notation => ({
+  space,
+  rules: findRules(space),
+  legacy,
+});
+
+const NOTATIONS: Record<string, Notation> = {
+  rgb: define('rgb', true),
+  rgba: define('rgb', true),
+  hsl: define('hsl', true),
+  hsla: define('hsl', true),
+  hwb: define('hwb'),
+  lab: define('lab'),
+  lch: define('lch'),
+  oklab: define('oklab'),
+  oklch: define('oklch'),
+};
+
+const isKeyword = (node: Node | undefined, keyword: string): boolean =>
+  node?.kind === 'ident' && node.text.toLowerCase() === keyword;
+
+const parseHex = (token: Token): Color<'rgb'> => {
+  const hex = token.text;
+  const n = hex.length;
+  if ((n !== 3 && n !== 4 && n !== 6 && n !== 8) || !/^[0-9a-f]*$/i.test(hex)) {
+    throw new ParseFailure(token.start, 'invalid hex color');
+  }
+
+  const step = n > 4 ? 2 : 1;
+  const read = (i: number): number => {
+    const pair = hex.slice(i * step, i * step + step);
+    return Number.parseInt(step === 1 ? pair + pair : pair, 16) / 255;
+  };
+
+  const value = new Float32Array([read(0), read(1), read(2)]);
+  return { space: 'rgb', value, alpha: n === 4 || n === 8 ? read(3) : 1 };
+};
+
+const split = (args: readonly Node[], legacy: boolean, close: number): [Node[], Node | null] => {
+  const values: Node[] = [];
+  let alpha: Node | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const token = args[i];
+    const expectDelim = legacy && i % 2 === 1;
+
+    if (token.text === ',' && !legacy) {
+      throw new ParseFailure(token.start, 'cannot mix legacy and modern syntax');
+    }
+    if (token.text === '/' && (legacy || alpha !== null || values.length !== 3)) {
+      const reason = legacy ? 'cannot mix legacy and modern syntax' : 'expected 3 channels';
+      throw new ParseFailure(token.start, reason);
+    }
+    if (token.text === '/') {
+      alpha = args[i + 1] ?? null;
+      if (alpha === null || alpha.kind === 'delim') {
+        throw new ParseFailure(alpha?.start ?? close, 'expected alpha after /');
+      }
+      if (i + 2 < args.length) throw new ParseFailure(args[i + 2].start, 'too many arguments');
+      return [values, alpha];
+    }
+    if (expectDelim !== (token.text === ',')) {
+      throw new ParseFailure(token.start, expectDelim ? 'expected ,' : 'expected a value');
+    }
+    if (legacy && isKeyword(token, 'none')) {
+      throw new ParseFailure(token.start, 'none is not allowed in legacy syntax');
+    }
+    if (!expectDelim) values.push(token);
+  }
+
+  if (legacy && args.at(-1)?.text === ',') {
+    throw new ParseFailure(close, 'expected a value');
+  }
+  if (legacy && values.length === 4) alpha = values.pop() ?? null;
+  if (values.length !== 3) {
+    throw new ParseFailure(values[3]?.start ?? close, 'expected 3 channels');
+  }
+  return [values, alpha];
+};
+
+const readLeaf = (token: Token, rule: Rule, refs: Refs | null): number => {
+  const name = token.text.toLowerCase();
+  if (token.kind === 'number') return token.value;
+
+  if (token.kind === 'ident' && refs) {
+    if (!Object.hasOwn(refs, name)) throw new ParseFailure(token.start, 'unknown channel keyword');
+    return refs[name];
+  }
+  if (rule === 'hue') {
+    if (token.kind === 'dimension' && Object.hasOwn(ANGLES, name)) {
+      return token.value * ANGLES[name];
+    }
+    throw new ParseFailure(token.start, 'expected a number or angle for hue');
+  }
+  if (token.kind === 'percent') return (token.value * rule[1]) / rule[0];
+  throw new ParseFailure(token.start, 'expected a number or percentage');
+};
+
+const readChannel = (node: Node, rule: Rule, refs: Refs | null): number => {
+  if (isKeyword(node, 'none')) return NaN;
+  if (node.kind === 'call' && !refs && !MATH.has(node.text.toLowerCase())) {
+    throw new ParseFailure(node.start, 'expected a number or percentage');
+  }
+
+  const value = evaluate(node, (leaf) => readLeaf(leaf, rule, refs));
+  return rule === 'hue' ? wrapHue(value) : value * rule[0];
+};
+
+const readAlpha = (node: Node | null, refs: Refs | null): number => {
+  if (!node) return refs ? refs.alpha : 1;
+  const a = readChannel(node, UNIT_RULES[0], refs);
+  if (Number.isNaN(a)) return a;
+  return a < 0 ? 0 : Math.min(a, 1);
+};
+
+const resolveRefs = (origin: Color<Space>, notation: Notation): Refs => {
+  const { space, rules } = notation;
+  const value = new Float32Array(3);
+  convertColor(origin.value, value, origin.space, space);
+
+  const refs: Record<string, number> = {
+    alpha: Number.isNaN(origin.alpha) ? 0 : origin.alpha,
+  };
+  const channels = findChannels(space)?.channels ?? [];
+  for (let i = 0; i < channels.length; i++) {
+    const rule = rules[i];
+    const channel = Number.isNaN(value[i]) ? 0 : value[i];
+    refs[channels[i].name] = rule === 'hue' ? channel : channel / rule[0];
+  }
+  return refs;
+};
+
+const checkLegacy = (notation: Notation, values: readonly Node[]): void => {
+  if (notation.space === 'rgb') {
+    const plain = values.filter((t) => t.kind !== 'call');
+    const kind = plain.at(0)?.kind;
+    const mixed = plain.find((t) => t.kind !== kind);
+    if (mixed) {
+      throw new ParseFailure(mixed.start, 'legacy rgb cannot mix numbers and percentages');
+    }
+  } else {
+    const number = values.find((t, i) => i > 0 && t.kind !== 'percent' && t.kind !== 'call');
+    if (number) throw new ParseFailure(number.start, 'legacy hsl needs percentages');
+  }
+};
+
+const resolveSpace = (token: Node | undefined, close: number): Space => {
+  if (token?.kind !== 'ident') {
+    throw new ParseFailure(token?.start ?? close, 'expected a color space');
+  }
+  const name = token.text.toLowerCase();
+  if (name.startsWith('--')) {
+    const custom = findSpace(token.text.slice(2))?.id;
+    if (custom === undefined) throw new ParseFailure(token.start, 'unknown color space');
+    return custom;
+  }
+  if (!Object.hasOwn(PREDEFINED, name)) throw new ParseFailure(token.start, 'unknown color space');
+  return PREDEFINED[name];
+};
+
+const parseFunction = (call: Call): Color<Space> => {
+  const name = call.text.toLowerCase();
+  let args = call.args;
+  let origin: Color<Space> | null = null;
+  let notation = Object.hasOwn(NOTATIONS, name) ? NOTATIONS[name] : undefined;
+
+  if (isKeyword(args[0], 'from')) {
+    const node = args.at(1);
+    if (!node) throw new ParseFailure(call.end, 'expected an origin color');
+    origin = readColor(node);
+    args = args.slice(2);
+  }
+  if (name === 'color') {
+    const space = resolveSpace(args[0], call.end);
+    notation = { space, rules: UNIT_RULES, legacy: false };
+    args = args.slice(1);
+  } else if (notation === undefined) {
+    throw new ParseFailure(call.start, 'unknown color function');
+  }
+
+  const legacy = !origin && notation.legacy && args.at(1)?.text === ',';
+  const [values, alpha] = split(args, legacy, call.end);
+  if (legacy) checkLegacy(notation, values);
+
+  const refs = origin && resolveRefs(origin, notation);
+  const { rules } = notation;
+  const value = new Float32Array([
+    readChannel(values[0], rules[0], refs),
+    readChannel(values[1], rules[1], refs),
+    readChannel(values[2], rules[2], refs),
+  ]);
+  return { space: notation.space, value, alpha: readAlpha(alpha, refs) };
+};
+
+function readColor(node: Node): Color<Space> {
+  if (node.kind === 'hash') return parseHex(node);
+  if (node.kind === 'call' && node.text.toLowerCase() === 'color-mix') {
+    return parseMix(node, readColor);
+  }
+  if (node.kind === 'call') return parseFunction(node);
+  if (node.kind === 'ident') {
+    const named = findNamedColor(node.text);
+    if (named) return named;
+    const unresolved = node.text.toLowerCase() === 'currentcolor';
+    const reason = unresolved ? 'currentcolor is not resolved' : 'unknown color keyword';
+    throw new ParseFailure(node.start, reason);
+  }
+  throw new ParseFailure(node.start, 'expected a color');
+}
+
+const parseTokens = (s: string): Color<Space> => {
+  const nodes = group(tokenize(s));
+  const head = nodes.at(0);
+  if (!head) throw new ParseFailure(0, 'empty input');
+  if (nodes.length > 1) throw new ParseFailure(nodes[1].start, 'unexpected trailing input');
+  return readColor(head);
+};
+
+export function parseColorStrict(s: string): ParseResult {
+  const custom = parseSpace(s);
+  if (custom) return { ok: true, color: custom };
+
+  try {
+    return { ok: true, color: parseTokens(s) };
+  } catch (error) {
+    if (!(error instanceof ParseFailure)) throw error;
+    const position = Math.min(error.position, s.length);
+    return { ok: false, error: { position, reason: error.message } };
+  }
+}
+
+export function tryParseColor(s: string): Color<Space> | null {
+  const result = parseColorStrict(s);
+  return result.ok ? result.color : null;
+}
@@ -0,0 +1,94 @@
+export type TokenKind =
+  | 'number'
+  | 'percent'
+  | 'dimension'
+  | 'ident'
+  | 'hash'
+  | 'function'
+  | 'delim';
+
+export type Token = Readonly<{ kind: TokenKind; value: number; text: string; start: number }>;
+
+export type Call = Readonly<{
+  kind: 'call';
+  text: string;
+  start: number;
+  end: number;
+  args: readonly Node[];
+}>;
+
+export type Node = Token | Call;
+
+export class ParseFailure extends Error {
+  readonly position: number;
+
+  constructor(position: number, reason: string) {
+    super(reason);
+    this.position = position;
+  }
+}
+
+const TOKEN =
+  /([+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)(%|[a-z]+)?|#([0-9a-z]*)|(-{0,2}[a-z][\w-]*)(\()?|([,/()*+-])/iy;
+
+export function tokenize(s: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  for (;;) {
+    while (pos < s.length && (s.codePointAt(pos) ?? 0) <= 32) pos++;
+    if (pos >= s.length) return tokens;
+
+    TOKEN.lastIndex = pos;
+    const m = TOKEN.exec(s);
+    if (!m) throw new ParseFailure(pos, 'unexpected character');
+
+    const [text, num, unit, hex, name, open] = m;
+    const start = pos;
+    pos = TOKEN.lastIndex;
+
+    if (num !== undefined) {
+      const kind = unit === undefined ? 'number' : unit === '%' ? 'percent' : 'dimension';
+      tokens.push({ kind, value: Number(num), text: unit ?? '', start });
+    } else if (hex !== undefined) {
+      tokens.push({ kind: 'hash', value: 0, text: hex, start });
+    } else if (name === undefined) {
+      tokens.push({ kind: 'delim', value: 0, text, start });
+    } else {
+      tokens.push({ kind: open ? 'function' : 'ident', value: 0, text: name, start });
+    }
+  }
+}
+
+export function group(tokens: readonly Token[]): Node[] {
+  const stack: [Token | null, Node[]][] = [];
+  let open: Token | null = null;
+  let args: Node[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.kind === 'function' || token.text === '(') {
+      stack.push([open, args]);
+      open = token;
+      args = [];
+    } else if (token.text === ')') {
+      const parent = stack.pop();
+      if (!open || !parent) throw new ParseFailure(token.start, 'unexpected )');
+      const call: Call = {
+        kind: 'call',
+        text: open.text,
+        start: open.start,
+        end: token.start,
+        args,
+      };
+      [open, args] = parent;
+      args.push(call);
+    } else {
+      args.push(token);
+    }
+  }
+
+  if (open) throw new ParseFailure(Number.POSITIVE_INFINITY, 'missing )');
+  return args;
+}
@@ -0,0 +1,52 @@
+import type { Space } from '../lib/types';
+
+export type Rule = readonly [number: number, percent: number] | 'hue';
+
+export type Rules = readonly [Rule, Rule, Rule];
+
+export const ANGLES: Readonly<Record<string, number>> = {
+  deg: 1,
+  grad: 0.9,
+  rad: 180 / Math.PI,
+  turn: 360,
+};
+
+const RGB: Rule = [1 / 255, 0.01];
+const UNIT: Rule = [1, 0.01];
+const SCALE: Rule = [0.01, 0.01];
+
+export const PREDEFINED: Readonly<Record<string, Space>> = {
+  srgb: 'rgb',
+  'srgb-linear': 'lrgb',
+  'display-p3': 'p3',
+  'display-p3-linear': 'lp3',
+  rec2020: 'rec2020',
+  'rec2020-linear': 'lrec2020',
+  'a98-rgb': 'a98',
+  'a98-rgb-linear': 'la98',
+  'prophoto-rgb': 'prophoto',
+  'prophoto-rgb-linear': 'lprophoto',
+  xyz: 'xyz65',
+  'xyz-d65': 'xyz65',
+  'xyz-d50': 'xyz50',
+};
+
+export const UNIT_RULES: Rules = [UNIT, UNIT, UNIT];
+
+const RULES: Record<string, Rules> = {
+  rgb: [RGB, RGB, RGB],
+  hsl: ['hue', SCALE, SCALE],
+  hwb: ['hue', SCALE, SCALE],
+  lab: [SCALE, [1, 1.25], [1, 1.25]],
+  lch: [SCALE, [1, 1.5], 'hue'],
+  oklab: [UNIT, [1, 0.004], [1, 0.004]],
+  oklch: [UNIT, [1, 0.004], 'hue'],
+};
+
+export function findRules(space: Space): Rules {
+  return Object.hasOwn(RULES, space) ? RULES[space] : UNIT_RULES;
+}
+
+export function wrapHue(h: number): number {
+  return h === 360 ? 360 : ((h % 360) + 360) % 360;
+}
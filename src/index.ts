@@ -1,8 +1,21 @@
 export type * from './lib/types';
 
-export { convertColor } from './api/convert';
+export { convertColor, convertColor64, getConversionPath, explainConversion } from './api/convert';
+export { configureTransfer, getTransfer } from './lib/linear';
+export type { TransferMode, TransferOptions } from './lib/linear';
+export { convertBuffer } from './api/buffer';
+export type { BufferLayout, BufferOptions } from './api/buffer';
 export { parseColor } from './api/parse';
+export { parseColorStrict, tryParseColor } from './api/strict';
+export type { ParseError, ParseResult } from './api/strict';
 export { formatCss } from './api/format';
+export { colorMix } from './api/mix';
+export type { HueMethod } from './api/mix';
+export { NAMED_COLORS, findNamedColor, getColorName, setCurrentColor } from './api/named';
+export { registerSpace, findSpace, defineRgbSpace } from './api/space';
+export { findChannels, getChannel, setChannel } from './api/channel';
+export type { ChannelInfo, ChannelLayout, ChannelUnit } from './api/channel';
+export type { SpaceDefinition, Chromaticity, RgbSpace, TransferCurve } from './api/space';
 export {
   createMatrix,
   dropMatrix,
@@ -11,7 +24,33 @@ export {
   cloneColor,
   deriveColor,
   mutateColor,
+  openScope,
+  withScope,
   mountMatrix,
   clearMatrix,
   countMatrix,
+  setExhaustion,
+  countDeadCells,
+  setDebug,
+  markCheckpoint,
+  reportLeaks,
 } from './api/color';
+export type { ExhaustionPolicy, PoolLeak, Scope } from './api/color';
+export { createPool } from './api/pool';
+export type { Pool, PoolOptions } from './api/pool';
+export { createSharedPool, attachPool } from './api/shared';
+export type { SharedPool } from './api/shared';
+export {
+  createMatrix64,
+  dropMatrix64,
+  createColor64,
+  dropColor64,
+  cloneColor64,
+  deriveColor64,
+  mutateColor64,
+  mountMatrix64,
+  clearMatrix64,
+  countMatrix64,
+  setExhaustion64,
+  countDeadCells64,
+} from './api/color64';
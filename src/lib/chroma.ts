@@ -1,4 +1,6 @@
-export function xyz65ToXyz50(input: Float32Array, output: Float32Array): void {
+import type { Channels } from './types';
+
+export function xyz65ToXyz50(input: Channels, output: Channels): void {
   const x = input[0];
   const y = input[1];
   const z = input[2];
@@ -7,7 +9,7 @@ export function xyz65ToXyz50(input: Float32Array, output: Float32Array): void {
   output[2] = -0.0092345 * x + 0.0150436 * y + 0.7521316 * z;
 }
 
-export function xyz50ToXyz65(input: Float32Array, output: Float32Array): void {
+export function xyz50ToXyz65(input: Channels, output: Channels): void {
   const x = input[0];
   const y = input[1];
   const z = input[2];
@@ -1,3 +1,5 @@
+import type { Channels } from './types';
+
 const E = 216 / 24389;
 const K = 24389 / 27;
 
@@ -12,7 +14,7 @@ const INV_K_100 = 100 / K;
 const K_116 = K / 116;
 const O_116 = 16 / 116;
 
-export function xyz50ToLab(input: Float32Array, output: Float32Array): void {
+export function xyz50ToLab(input: Channels, output: Channels): void {
   const fx = input[0] * INV_X50;
   const fy = input[1];
   const fz = input[2] * INV_Z50;
@@ -26,7 +28,7 @@ export function xyz50ToLab(input: Float32Array, output: Float32Array): void {
   output[2] = 200 * (oy - oz);
 }
 
-export function labToXyz50(input: Float32Array, output: Float32Array): void {
+export function labToXyz50(input: Channels, output: Channels): void {
   const l = input[0];
   const fy = (l + 0.16) / 1.16;
   const fx = input[1] * 0.002 + fy;
@@ -41,7 +43,7 @@ export function labToXyz50(input: Float32Array, output: Float32Array): void {
   output[2] = (z3 > E ? z3 : (116 * fz - 16) * INV_K) * Z50;
 }
 
-export function xyz65ToLab(input: Float32Array, output: Float32Array): void {
+export function xyz65ToLab(input: Channels, output: Channels): void {
   const ix = input[0];
   const iy = input[1];
   const iz = input[2];
@@ -62,7 +64,7 @@ export function xyz65ToLab(input: Float32Array, output: Float32Array): void {
   output[2] = 200 * (oy - oz);
 }
 
-export function labToXyz65(input: Float32Array, output: Float32Array): void {
+export function labToXyz65(input: Channels, output: Channels): void {
   const l = input[0];
   const fy = (l + 0.16) / 1.16;
   const fx = input[1] * 0.002 + fy;
@@ -81,7 +83,7 @@ export function labToXyz65(input: Float32Array, output: Float32Array): void {
   output[2] = 0.0122982 * x50 - 0.020483 * y50 + 1.3299098 * z50;
 }
 
-export function lrgbToLab(input: Float32Array, output: Float32Array): void {
+export function lrgbToLab(input: Channels, output: Channels): void {
   const r = input[0];
   const g = input[1];
   const b = input[2];
@@ -102,7 +104,7 @@ export function lrgbToLab(input: Float32Array, output: Float32Array): void {
   output[2] = 200 * (oy - oz);
 }
 
-export function labToLrgb(input: Float32Array, output: Float32Array): void {
+export function labToLrgb(input: Channels, output: Channels): void {
   const l = input[0];
   const fy = (l + 0.16) / 1.16;
   const fx = input[1] * 0.002 + fy;
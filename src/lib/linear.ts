@@ -1,20 +1,47 @@
-const LUT_SIZE = 65536;
-const MAX_LUT = LUT_SIZE - 1;
-const LIN_LUT = new Float32Array(LUT_SIZE + 1);
-const RGB_LUT = new Float32Array(LUT_SIZE + 1);
-
-for (let i = 0; i < LUT_SIZE; i++) {
-  const v = i / MAX_LUT;
-  LIN_LUT[i] = v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
-  RGB_LUT[i] = v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+import type { Channels } from './types';
+
+export type TransferMode = 'lut' | 'exact';
+
+export type TransferOptions = Readonly<{
+  mode?: TransferMode;
+  size?: number;
+}>;
+
+function toLinExact(v: number): number {
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function toRgbExact(v: number): number {
+  return v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+}
+
+let EXACT = false;
+let LUT_SIZE = 65536;
+let MAX_LUT = LUT_SIZE - 1;
+let LIN_LUT = new Float32Array(LUT_SIZE + 1);
+let RGB_LUT = new Float32Array(LUT_SIZE + 1);
+
+function fillLut(size: number): void {
+  LUT_SIZE = size;
+  MAX_LUT = size - 1;
+  LIN_LUT = new Float32Array(size + 1);
+  RGB_LUT = new Float32Array(size + 1);
+
+  for (let i = 0; i < size; i++) {
+    const v = i / MAX_LUT;
+    LIN_LUT[i] = toLinExact(v);
+    RGB_LUT[i] = toRgbExact(v);
+  }
+
+  LIN_LUT[size] = LIN_LUT[MAX_LUT];
+  RGB_LUT[size] = RGB_LUT[MAX_LUT];
 }
 
-LIN_LUT[LUT_SIZE] = LIN_LUT[MAX_LUT];
-RGB_LUT[LUT_SIZE] = RGB_LUT[MAX_LUT];
+fillLut(LUT_SIZE);
 
 function toLin(v: number): number {
-  if (v < 0 || v > 1) {
-    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  if (EXACT || v < 0 || v > 1) {
+    return toLinExact(v);
   }
   const s = v * MAX_LUT;
   const i = Math.trunc(s);
@@ -23,8 +50,8 @@ function toLin(v: number): number {
 }
 
 function toRgb(v: number): number {
-  if (v < 0 || v > 1) {
-    return v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  if (EXACT || v < 0 || v > 1) {
+    return toRgbExact(v);
   }
   const s = v * MAX_LUT;
   const i = Math.trunc(s);
@@ -32,19 +59,50 @@ function toRgb(v: number): number {
   return RGB_LUT[i] + t * (RGB_LUT[i + 1] - RGB_LUT[i]);
 }
 
-export function rgbToLrgb(input: Float32Array, output: Float32Array): void {
+export function configureTransfer(options: TransferOptions): void {
+  const { mode, size } = options;
+  if (size !== undefined) {
+    if (!Number.isInteger(size) || size < 2) {
+      throw new Error('lut size must be an integer of at least 2');
+    }
+    if (size !== LUT_SIZE) {
+      fillLut(size);
+    }
+  }
+  if (mode !== undefined) {
+    EXACT = mode === 'exact';
+  }
+}
+
+export function getTransfer(): Required<TransferOptions> {
+  return { mode: EXACT ? 'exact' : 'lut', size: LUT_SIZE };
+}
+
+export function rgbToLrgb(input: Channels, output: Channels): void {
   output[0] = toLin(input[0]);
   output[1] = toLin(input[1]);
   output[2] = toLin(input[2]);
 }
 
-export function lrgbToRgb(input: Float32Array, output: Float32Array): void {
+export function lrgbToRgb(input: Channels, output: Channels): void {
   output[0] = toRgb(input[0]);
   output[1] = toRgb(input[1]);
   output[2] = toRgb(input[2]);
 }
 
-export function lrgbToXyz65(input: Float32Array, output: Float32Array): void {
+export function rgbToLrgbExact(input: Channels, output: Channels): void {
+  output[0] = toLinExact(input[0]);
+  output[1] = toLinExact(input[1]);
+  output[2] = toLinExact(input[2]);
+}
+
+export function lrgbToRgbExact(input: Channels, output: Channels): void {
+  output[0] = toRgbExact(input[0]);
+  output[1] = toRgbExact(input[1]);
+  output[2] = toRgbExact(input[2]);
+}
+
+export function lrgbToXyz65(input: Channels, output: Channels): void {
   const r = input[0];
   const g = input[1];
   const b = input[2];
@@ -53,7 +111,7 @@ export function lrgbToXyz65(input: Float32Array, output: Float32Array): void {
   output[2] = 0.0193339 * r + 0.119192 * g + 0.9503041 * b;
 }
 
-export function lrgbToXyz50(input: Float32Array, output: Float32Array): void {
+export function lrgbToXyz50(input: Channels, output: Channels): void {
   const r = input[0];
   const g = input[1];
   const b = input[2];
@@ -62,7 +120,7 @@ export function lrgbToXyz50(input: Float32Array, output: Float32Array): void {
   output[2] = 0.0139322 * r + 0.0971045 * g + 0.7141733 * b;
 }
 
-export function xyz65ToLrgb(input: Float32Array, output: Float32Array): void {
+export function xyz65ToLrgb(input: Channels, output: Channels): void {
   const x = input[0];
   const y = input[1];
   const z = input[2];
@@ -71,7 +129,7 @@ export function xyz65ToLrgb(input: Float32Array, output: Float32Array): void {
   output[2] = 0.0556434 * x - 0.2040259 * y + 1.0572252 * z;
 }
 
-export function xyz50ToLrgb(input: Float32Array, output: Float32Array): void {
+export function xyz50ToLrgb(input: Channels, output: Channels): void {
   const x = input[0];
   const y = input[1];
   const z = input[2];
@@ -0,0 +1,136 @@
+import type { ConvertFn } from './types';
+
+const BRADFORD = new Float64Array([
+  0.8951, 0.2664, -0.1614, -0.7502, 1.7135, 0.0367, 0.0389, -0.0685, 1.0296,
+]);
+
+export function multiplyMatrix(a: Float64Array, b: Float64Array): Float64Array {
+  const out = new Float64Array(9);
+  for (let r = 0; r < 3; r++) {
+    const o = r * 3;
+    for (let c = 0; c < 3; c++) {
+      out[o + c] = a[o] * b[c] + a[o + 1] * b[c + 3] + a[o + 2] * b[c + 6];
+    }
+  }
+  return out;
+}
+
+export function invertMatrix(m: Float64Array): Float64Array {
+  const a = m[0];
+  const b = m[1];
+  const c = m[2];
+  const d = m[3];
+  const e = m[4];
+  const f = m[5];
+  const g = m[6];
+  const h = m[7];
+  const i = m[8];
+
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) throw new Error('matrix is not invertible');
+  const inv = 1 / det;
+
+  return new Float64Array([
+    A * inv,
+    (c * h - b * i) * inv,
+    (b * f - c * e) * inv,
+    B * inv,
+    (a * i - c * g) * inv,
+    (c * d - a * f) * inv,
+    C * inv,
+    (b * g - a * h) * inv,
+    (a * e - b * d) * inv,
+  ]);
+}
+
+export function whiteToXyz(x: number, y: number): Float64Array {
+  return new Float64Array([x / y, 1, (1 - x - y) / y]);
+}
+
+export function primariesToXyz(primaries: Float64Array, white: Float64Array): Float64Array {
+  const rx = primaries[0];
+  const ry = primaries[1];
+  const gx = primaries[2];
+  const gy = primaries[3];
+  const bx = primaries[4];
+  const by = primaries[5];
+
+  const m = new Float64Array([
+    rx / ry,
+    gx / gy,
+    bx / by,
+    1,
+    1,
+    1,
+    (1 - rx - ry) / ry,
+    (1 - gx - gy) / gy,
+    (1 - bx - by) / by,
+  ]);
+  const inv = invertMatrix(m);
+  const w0 = white[0];
+  const w1 = white[1];
+  const w2 = white[2];
+
+  for (let c = 0; c < 3; c++) {
+    const s = inv[c * 3] * w0 + inv[c * 3 + 1] * w1 + inv[c * 3 + 2] * w2;
+    m[c] *= s;
+    m[c + 3] *= s;
+    m[c + 6] *= s;
+  }
+
+  return m;
+}
+
+export function adaptMatrix(from: Float64Array, to: Float64Array): Float64Array {
+  const s = BRADFORD;
+  const sr = s[0] * from[0] + s[1] * from[1] + s[2] * from[2];
+  const sg = s[3] * from[0] + s[4] * from[1] + s[5] * from[2];
+  const sb = s[6] * from[0] + s[7] * from[1] + s[8] * from[2];
+  const dr = s[0] * to[0] + s[1] * to[1] + s[2] * to[2];
+  const dg = s[3] * to[0] + s[4] * to[1] + s[5] * to[2];
+  const db = s[6] * to[0] + s[7] * to[1] + s[8] * to[2];
+
+  const scale = new Float64Array([dr / sr, 0, 0, 0, dg / sg, 0, 0, 0, db / sb]);
+  return multiplyMatrix(invertMatrix(s), multiplyMatrix(scale, s));
+}
+
+export function compileMatrix(m: Float64Array): ConvertFn {
+  const m0 = m[0];
+  const m1 = m[1];
+  const m2 = m[2];
+  const m3 = m[3];
+  const m4 = m[4];
+  const m5 = m[5];
+  const m6 = m[6];
+  const m7 = m[7];
+  const m8 = m[8];
+
+  return (input, output) => {
+    const x = input[0];
+    const y = input[1];
+    const z = input[2];
+    output[0] = m0 * x + m1 * y + m2 * z;
+    output[1] = m3 * x + m4 * y + m5 * z;
+    output[2] = m6 * x + m7 * y + m8 * z;
+  };
+}
+
+export function extractMatrix(fn: ConvertFn): Float64Array {
+  const m = new Float64Array(9);
+  const input = new Float64Array(3);
+  const output = new Float64Array(3);
+
+  for (let c = 0; c < 3; c++) {
+    input.fill(0);
+    input[c] = 1;
+    fn(input, output);
+    m[c] = output[0];
+    m[c + 3] = output[1];
+    m[c + 6] = output[2];
+  }
+
+  return m;
+}
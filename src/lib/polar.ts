@@ -1,18 +1,21 @@
+import type { Channels } from './types';
+
 const TO_DEG = 180 / Math.PI;
 const TO_RAD = Math.PI / 180;
 
-function toPolar(input: Float32Array, output: Float32Array): void {
+function toPolar(input: Channels, output: Channels): void {
   const a = input[1];
   const b = input[2];
   const c = Math.sqrt(a * a + b * b);
-  const h = Math.abs(c) < 1e-4 ? 0 : Math.atan2(b, a) * TO_DEG;
+  const h = Math.abs(c) < 1e-4 ? NaN : Math.atan2(b, a) * TO_DEG;
   output[0] = input[0];
   output[1] = c;
   output[2] = h < 0 ? h + 360 : h;
 }
 
-function toCartesian(input: Float32Array, output: Float32Array): void {
-  const r = (((input[2] % 360) + 360) % 360) * TO_RAD;
+function toCartesian(input: Channels, output: Channels): void {
+  const h = input[2];
+  const r = Number.isNaN(h) ? 0 : (((h % 360) + 360) % 360) * TO_RAD;
   output[0] = input[0];
   output[1] = input[1] * Math.cos(r);
   output[2] = input[1] * Math.sin(r);
@@ -1,9 +1,11 @@
+import type { Channels } from './types';
+
 const HSV_COEFFS = new Float32Array([
   1, 0, 0, 1, 0, 0, 0, 1, 1, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 1, 1, 0, 0, 1, 0, 0, 1, 0, 1, 0, 0,
   0, 0, 1,
 ]);
 
-export function rgbToHsv(input: Float32Array, output: Float32Array): void {
+export function rgbToHsv(input: Channels, output: Channels): void {
   const r = input[0];
   const g = input[1];
   const b = input[2];
@@ -29,7 +31,7 @@ export function rgbToHsv(input: Float32Array, output: Float32Array): void {
   output[2] = v;
 }
 
-export function hsvToRgb(input: Float32Array, output: Float32Array): void {
+export function hsvToRgb(input: Channels, output: Channels): void {
   const h = input[0];
   const s = input[1];
   const v = input[2];
@@ -55,7 +57,7 @@ export function hsvToRgb(input: Float32Array, output: Float32Array): void {
   output[2] = HSV_COEFFS[o + 4] * c + HSV_COEFFS[o + 5] * x + m;
 }
 
-export function hsvToHsl(input: Float32Array, output: Float32Array): void {
+export function hsvToHsl(input: Channels, output: Channels): void {
   const h = input[0];
   const s = input[1];
   const v = input[2];
@@ -69,7 +71,7 @@ export function hsvToHsl(input: Float32Array, output: Float32Array): void {
   output[2] = l;
 }
 
-export function hslToHsv(input: Float32Array, output: Float32Array): void {
+export function hslToHsv(input: Channels, output: Channels): void {
   const h = input[0];
   const s = input[1];
   const l = input[2];
@@ -82,7 +84,7 @@ export function hslToHsv(input: Float32Array, output: Float32Array): void {
   output[2] = v;
 }
 
-export function hsvToHwb(input: Float32Array, output: Float32Array): void {
+export function hsvToHwb(input: Channels, output: Channels): void {
   const h = input[0];
   const s = input[1];
   const v = input[2];
@@ -95,7 +97,7 @@ export function hsvToHwb(input: Float32Array, output: Float32Array): void {
   output[2] = b;
 }
 
-export function hwbToHsv(input: Float32Array, output: Float32Array): void {
+export function hwbToHsv(input: Channels, output: Channels): void {
   const h = input[0];
   const w = input[1];
   const b = input[2];
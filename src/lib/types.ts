@@ -1,4 +1,6 @@
-export type Space =
+export interface SpaceRegistry {}
+
+export type BuiltinSpace =
   | 'rgb'
   | 'hsl'
   | 'hsv'
@@ -9,12 +11,56 @@ export type Space =
   | 'oklch'
   | 'lrgb'
   | 'xyz50'
-  | 'xyz65';
+  | 'xyz65'
+  | 'p3'
+  | 'lp3'
+  | 'rec2020'
+  | 'lrec2020'
+  | 'a98'
+  | 'la98'
+  | 'prophoto'
+  | 'lprophoto';
+
+export type Space = BuiltinSpace | Extract<keyof SpaceRegistry, string>;
+
+export interface BuiltinChannels {
+  rgb: 'r' | 'g' | 'b';
+  hsl: 'h' | 's' | 'l';
+  hsv: 'h' | 's' | 'v';
+  hwb: 'h' | 'w' | 'b';
+  lab: 'l' | 'a' | 'b';
+  lch: 'l' | 'c' | 'h';
+  oklab: 'l' | 'a' | 'b';
+  oklch: 'l' | 'c' | 'h';
+  lrgb: 'r' | 'g' | 'b';
+  xyz50: 'x' | 'y' | 'z';
+  xyz65: 'x' | 'y' | 'z';
+  p3: 'r' | 'g' | 'b';
+  lp3: 'r' | 'g' | 'b';
+  rec2020: 'r' | 'g' | 'b';
+  lrec2020: 'r' | 'g' | 'b';
+  a98: 'r' | 'g' | 'b';
+  la98: 'r' | 'g' | 'b';
+  prophoto: 'r' | 'g' | 'b';
+  lprophoto: 'r' | 'g' | 'b';
+}
 
-export type Color<S extends Space> = {
+export type ChannelName<S extends Space> = S extends BuiltinSpace
+  ? BuiltinChannels[S]
+  : S extends keyof SpaceRegistry
+    ? SpaceRegistry[S] extends readonly string[]
+      ? SpaceRegistry[S][number]
+      : string
+    : string;
+
+export type Channels = Float32Array | Float64Array;
+
+export type Color<S extends Space, V extends Channels = Float32Array> = {
   space: S;
-  value: Float32Array;
+  value: V;
   alpha: number;
 };
 
-export type Mutable<S extends Color<Space>> = { -readonly [K in keyof S]: S[K] };
+export type Mutable<S extends Color<Space, Channels>> = { -readonly [K in keyof S]: S[K] };
+
+export type ConvertFn = (input: Channels, output: Channels) => void;
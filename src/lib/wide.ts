@@ -0,0 +1,166 @@
+import { lrgbToRgb, rgbToLrgb } from './linear';
+import type { Channels } from './types';
+
+const REC_A = 1.09929682680944;
+const REC_B = 0.018053968510807;
+const A98_G = 563 / 256;
+const A98_INV_G = 256 / 563;
+const PRO_E = 1 / 512;
+const PRO_E16 = 16 / 512;
+
+function recToLin(v: number): number {
+  const a = Math.abs(v);
+  if (a < REC_B * 4.5) return v / 4.5;
+  return Math.sign(v) * Math.pow((a + REC_A - 1) / REC_A, 1 / 0.45);
+}
+
+function linToRec(v: number): number {
+  const a = Math.abs(v);
+  if (a < REC_B) return v * 4.5;
+  return Math.sign(v) * (REC_A * Math.pow(a, 0.45) - (REC_A - 1));
+}
+
+function proToLin(v: number): number {
+  const a = Math.abs(v);
+  return a <= PRO_E16 ? v / 16 : Math.sign(v) * Math.pow(a, 1.8);
+}
+
+function linToPro(v: number): number {
+  const a = Math.abs(v);
+  return a >= PRO_E ? Math.sign(v) * Math.pow(a, 1 / 1.8) : v * 16;
+}
+
+export const p3ToLp3: typeof rgbToLrgb = rgbToLrgb;
+export const lp3ToP3: typeof lrgbToRgb = lrgbToRgb;
+
+export function lp3ToXyz65(input: Channels, output: Channels): void {
+  const r = input[0];
+  const g = input[1];
+  const b = input[2];
+  output[0] = 0.4866327 * r + 0.2656632 * g + 0.1981742 * b;
+  output[1] = 0.2290036 * r + 0.6917267 * g + 0.0792697 * b;
+  output[2] = 0.0451126 * g + 1.0437174 * b;
+}
+
+export function xyz65ToLp3(input: Channels, output: Channels): void {
+  const x = input[0];
+  const y = input[1];
+  const z = input[2];
+  output[0] = 2.4931808 * x - 0.9312655 * y - 0.4026597 * z;
+  output[1] = -0.8295031 * x + 1.7626941 * y + 0.0236251 * z;
+  output[2] = 0.0358536 * x - 0.076189 * y + 0.9570926 * z;
+}
+
+export function lp3ToLrgb(input: Channels, output: Channels): void {
+  const r = input[0];
+  const g = input[1];
+  const b = input[2];
+  output[0] = 1.2249008 * r - 0.2249006 * g;
+  output[1] = -0.0420634 * r + 1.0420632 * g;
+  output[2] = -0.0196448 * r - 0.0786535 * g + 1.0982983 * b;
+}
+
+export function lrgbToLp3(input: Channels, output: Channels): void {
+  const r = input[0];
+  const g = input[1];
+  const b = input[2];
+  output[0] = 0.8224884 * r + 0.1775114 * g;
+  output[1] = 0.0332002 * r + 0.9668 * g;
+  output[2] = 0.0170891 * r + 0.0724115 * g + 0.9104994 * b;
+}
+
+export function rec2020ToLrec2020(input: Channels, output: Channels): void {
+  output[0] = recToLin(input[0]);
+  output[1] = recToLin(input[1]);
+  output[2] = recToLin(input[2]);
+}
+
+export function lrec2020ToRec2020(input: Channels, output: Channels): void {
+  output[0] = linToRec(input[0]);
+  output[1] = linToRec(input[1]);
+  output[2] = linToRec(input[2]);
+}
+
+export function lrec2020ToXyz65(input: Channels, output: Channels): void {
+  const r = input[0];
+  const g = input[1];
+  const b = input[2];
+  output[0] = 0.6370102 * r + 0.144615 * g + 0.1688448 * b;
+  output[1] = 0.2627217 * r + 0.6779893 * g + 0.059289 * b;
+  output[2] = 0.0280723 * g + 1.0607577 * b;
+}
+
+export function xyz65ToLrec2020(input: Channels, output: Channels): void {
+  const x = input[0];
+  const y = input[1];
+  const z = input[2];
+  output[0] = 1.7165107 * x - 0.3556417 * y - 0.2533455 * z;
+  output[1] = -0.666693 * x + 1.6165022 * y + 0.0157688 * z;
+  output[2] = 0.0176436 * x - 0.0427798 * y + 0.9423051 * z;
+}
+
+export function a98ToLa98(input: Channels, output: Channels): void {
+  const r = input[0];
+  const g = input[1];
+  const b = input[2];
+  output[0] = Math.sign(r) * Math.pow(Math.abs(r), A98_G);
+  output[1] = Math.sign(g) * Math.pow(Math.abs(g), A98_G);
+  output[2] = Math.sign(b) * Math.pow(Math.abs(b), A98_G);
+}
+
+export function la98ToA98(input: Channels, output: Channels): void {
+  const r = input[0];
+  const g = input[1];
+  const b = input[2];
+  output[0] = Math.sign(r) * Math.pow(Math.abs(r), A98_INV_G);
+  output[1] = Math.sign(g) * Math.pow(Math.abs(g), A98_INV_G);
+  output[2] = Math.sign(b) * Math.pow(Math.abs(b), A98_INV_G);
+}
+
+export function la98ToXyz65(input: Channels, output: Channels): void {
+  const r = input[0];
+  const g = input[1];
+  const b = input[2];
+  output[0] = 0.5767309 * r + 0.185554 * g + 0.1881852 * b;
+  output[1] = 0.2973769 * r + 0.6273491 * g + 0.0752741 * b;
+  output[2] = 0.0270343 * r + 0.0706872 * g + 0.9911085 * b;
+}
+
+export function xyz65ToLa98(input: Channels, output: Channels): void {
+  const x = input[0];
+  const y = input[1];
+  const z = input[2];
+  output[0] = 2.041369 * x - 0.5649464 * y - 0.3446944 * z;
+  output[1] = -0.969266 * x + 1.8760108 * y + 0.041556 * z;
+  output[2] = 0.0134474 * x - 0.1183897 * y + 1.0154096 * z;
+}
+
+export function prophotoToLprophoto(input: Channels, output: Channels): void {
+  output[0] = proToLin(input[0]);
+  output[1] = proToLin(input[1]);
+  output[2] = proToLin(input[2]);
+}
+
+export function lprophotoToProphoto(input: Channels, output: Channels): void {
+  output[0] = linToPro(input[0]);
+  output[1] = linToPro(input[1]);
+  output[2] = linToPro(input[2]);
+}
+
+export function lprophotoToXyz50(input: Channels, output: Channels): void {
+  const r = input[0];
+  const g = input[1];
+  const b = input[2];
+  output[0] = 0.7976811 * r + 0.1351872 * g + 0.0313517 * b;
+  output[1] = 0.2880439 * r + 0.7118661 * g + 0.0000899 * b;
+  output[2] = 0.82521 * b;
+}
+
+export function xyz50ToLprophoto(input: Channels, output: Channels): void {
+  const x = input[0];
+  const y = input[1];
+  const z = input[2];
+  output[0] = 1.3459312 * x - 0.2555995 * y - 0.0511073 * z;
+  output[1] = -0.5446071 * x + 1.5081823 * y + 0.0205266 * z;
+  output[2] = 1.2118128 * z;
+}
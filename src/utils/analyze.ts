@@ -1,4 +1,5 @@
-import { cloneColor, createMatrix, deriveColor, dropColor, mutateColor } from '../api/color';
+import { findChannels } from '../api/channel';
+import { cloneColor, createMatrix, deriveColor, dropColor } from '../api/color';
 import { convertColor } from '../api/convert';
 import type { Color, Space } from '../lib/types';
 
@@ -29,12 +30,17 @@ const calculateItp = (xyz: Float32Array): [number, number, number] => {
   return [I, Ct, Cp];
 };
 
-const getItpDistance = (colorA: Color<Space>, colorB: Color<Space>): number => {
-  mutateColor(colorA, 'xyz65');
-  mutateColor(colorB, 'xyz65');
+const A = new Float32Array(3);
+const B = new Float32Array(3);
+
+const readAs = (color: Color<Space>, space: Space, output: Float32Array): Float32Array => {
+  convertColor(color.value, output, color.space, space);
+  return output;
+};
 
-  const v1 = colorA.value;
-  const v2 = colorB.value;
+const getItpDistance = (colorA: Color<Space>, colorB: Color<Space>): number => {
+  const v1 = readAs(colorA, 'xyz65', A);
+  const v2 = readAs(colorB, 'xyz65', B);
 
   const c1 = calculateItp(v1);
   const c2 = calculateItp(v2);
@@ -47,11 +53,8 @@ const getItpDistance = (colorA: Color<Space>, colorB: Color<Space>): number => {
 };
 
 const getDeltaE = (colorA: Color<Space>, colorB: Color<Space>): number => {
-  mutateColor(colorA, 'lab');
-  mutateColor(colorB, 'lab');
-
-  const v1 = colorA.value;
-  const v2 = colorB.value;
+  const v1 = readAs(colorA, 'lab', A);
+  const v2 = readAs(colorB, 'lab', B);
 
   const L1 = v1[0];
   const a1 = v1[1];
@@ -119,11 +122,8 @@ const getDeltaE = (colorA: Color<Space>, colorB: Color<Space>): number => {
 };
 
 const getOklabDistance = (colorA: Color<Space>, colorB: Color<Space>): number => {
-  mutateColor(colorA, 'oklab');
-  mutateColor(colorB, 'oklab');
-
-  const a = colorA.value;
-  const b = colorB.value;
+  const a = readAs(colorA, 'oklab', A);
+  const b = readAs(colorB, 'oklab', B);
   const dL = a[0] - b[0];
   const da = a[1] - b[1];
   const db = a[2] - b[2];
@@ -161,23 +161,23 @@ export function sortColors(
   let t1 = 0;
   let t2 = 0;
   if (by === 'distance' && target) {
-    mutateColor(target, 'oklab');
-    t0 = target.value[0];
-    t1 = target.value[1];
-    t2 = target.value[2];
+    const t = readAs(target, 'oklab', A);
+    t0 = t[0];
+    t1 = t[1];
+    t2 = t[2];
   }
 
+  const v = B;
   const map = [];
   for (let i = 0; i < colors.length; i++) {
     const c = colors[i];
-    mutateColor(c, space);
+    convertColor(c.value, v, c.space, space);
 
     let key = 0;
     if (by === 'distance') {
-      const v = c.value;
       key = (v[0] - t0) ** 2 + (v[1] - t1) ** 2 + (v[2] - t2) ** 2;
-    } else {
-      key = c.value[propIdx];
+    } else if (!Number.isNaN(v[propIdx])) {
+      key = v[propIdx];
     }
 
     map.push({ key, color: c });
@@ -204,11 +204,11 @@ export function averageColor(colors: Readonly<Color<Space>[]>): Color<Space> {
   let b = 0;
   let alpha = 0;
 
+  const v = A;
   for (let i = 0; i < count; i++) {
     const c = colors[i];
-    mutateColor(c, 'oklab');
+    convertColor(c.value, v, c.space, 'oklab');
 
-    const v = c.value;
     L += v[0];
     a += v[1];
     b += v[2];
@@ -257,11 +257,9 @@ export function isEqual<S extends Space, T extends Space>(
   const vB = b.value;
 
   if ((a.space as string) === (b.space as string)) {
-    const isPolar =
-      a.space === 'oklch' || a.space === 'lch' || a.space === 'hsl' || a.space === 'hwb';
+    const hIdx = findChannels(a.space)?.hue ?? -1;
 
-    if (isPolar) {
-      const hIdx = a.space === 'hwb' ? 0 : 2;
+    if (hIdx >= 0) {
       const dH = Math.abs(vA[hIdx] - vB[hIdx]) % 360;
       const hueDist = dH > 180 ? 360 - dH : dH;
       if (hueDist > 0.1) return false;
@@ -280,12 +278,13 @@ export function isEqual<S extends Space, T extends Space>(
     );
   }
 
-  const temp = new Float32Array(3);
+  const temp = A;
   convertColor(vB, temp, b.space, a.space);
 
-  return (
+  const equal =
     Math.abs(vA[0] - temp[0]) <= tolerance &&
     Math.abs(vA[1] - temp[1]) <= tolerance &&
-    Math.abs(vA[2] - temp[2]) <= tolerance
-  );
+    Math.abs(vA[2] - temp[2]) <= tolerance;
+
+  return equal;
 }
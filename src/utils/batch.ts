@@ -0,0 +1,227 @@
+import { convertBuffer } from '../api/buffer';
+import { convertColor } from '../api/convert';
+import type { Color, Space } from '../lib/types';
+import { getDistance } from './analyze';
+
+export type BatchPort =
+  | {
+      postMessage(message: unknown): void;
+      addEventListener(
+        type: 'message',
+        listener: (event: Readonly<{ data: unknown }>) => void,
+      ): void;
+      addEventListener(type: 'error', listener: () => void): void;
+    }
+  | {
+      postMessage(message: unknown): void;
+      on(type: 'message', listener: (data: unknown) => void): unknown;
+      on(type: 'error' | 'exit', listener: () => void): unknown;
+    };
+
+export type SortKey = 'luminance' | 'chroma' | 'hue';
+
+export type DistanceMethod = 'oklab' | 'deltaE2000' | 'itp';
+
+export interface Batch {
+  convert: (input: Float32Array, output: Float32Array, from: Space, to: Space) => Promise<void>;
+  sort: (input: Float32Array, from: Space, by: SortKey) => Promise<Uint32Array>;
+  distances: (input: Float32Array, from: Space, method?: DistanceMethod) => Promise<Float32Array>;
+}
+
+type BatchJob = Readonly<{
+  kind: 'convert' | 'keys' | 'distance';
+  input: Float32Array;
+  output: Float32Array;
+  from: Space;
+  to: Space;
+  key: number;
+  method: DistanceMethod;
+  start: number;
+  end: number;
+}>;
+
+type BatchReply = Readonly<{ id: number; error?: string }>;
+
+type Pending = Readonly<{
+  port: number;
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+}>;
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null;
+
+const isJob = (data: unknown): data is Readonly<{ id: number; job: BatchJob }> =>
+  isObject(data) && typeof data.id === 'number' && isObject(data.job);
+
+const isReply = (data: unknown): data is BatchReply =>
+  isObject(data) && typeof data.id === 'number' && !('job' in data);
+
+const toShared = (length: number): Float32Array =>
+  new Float32Array(new SharedArrayBuffer(length * 4));
+
+const assertShared = (...buffers: readonly Float32Array[]): void => {
+  for (let i = 0; i < buffers.length; i++) {
+    if (!(buffers[i].buffer instanceof SharedArrayBuffer)) {
+      throw new Error('batch buffers must be shared');
+    }
+  }
+};
+
+const runKeys = (job: BatchJob): void => {
+  const { input, output, from, key } = job;
+  const lch = new Float32Array(3);
+  for (let i = job.start; i < job.end; i++) {
+    convertColor(input.subarray(i * 3, i * 3 + 3), lch, from, 'oklch');
+    output[i] = Number.isNaN(lch[key]) ? 0 : lch[key];
+  }
+};
+
+const runDistance = (job: BatchJob): void => {
+  const { input, output, from, method } = job;
+  const count = Math.trunc(input.length / 3);
+  const a = new Float32Array(3);
+  const b = new Float32Array(3);
+  const colorA: Color<Space> = { space: from, value: a, alpha: 1 };
+  const colorB: Color<Space> = { space: from, value: b, alpha: 1 };
+
+  for (let i = job.start; i < job.end; i++) {
+    for (let j = 0; j < count; j++) {
+      a.set(input.subarray(i * 3, i * 3 + 3));
+      b.set(input.subarray(j * 3, j * 3 + 3));
+      output[i * count + j] = getDistance(colorA, colorB, method);
+    }
+  }
+};
+
+const runJob = (job: BatchJob): void => {
+  if (job.kind === 'convert') {
+    const count = job.end - job.start;
+    convertBuffer(job.input, job.output, job.from, job.to, { offset: job.start * 3, count });
+  } else if (job.kind === 'keys') {
+    runKeys(job);
+  } else {
+    runDistance(job);
+  }
+};
+
+const listen = (port: BatchPort, onMessage: (data: unknown) => void, onFail?: () => void): void => {
+  if ('on' in port) {
+    port.on('message', onMessage);
+    if (onFail) {
+      port.on('error', onFail);
+      port.on('exit', onFail);
+    }
+  } else {
+    port.addEventListener('message', (event) => {
+      onMessage(event.data);
+    });
+    if (onFail) port.addEventListener('error', onFail);
+  }
+};
+
+export function serveBatch(port: BatchPort): void {
+  listen(port, (data) => {
+    if (!isJob(data)) return;
+    try {
+      runJob(data.job);
+      port.postMessage({ id: data.id });
+    } catch (error) {
+      port.postMessage({
+        id: data.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
+
+export function createBatch(ports: readonly BatchPort[]): Batch {
+  if (ports.length === 0) {
+    throw new Error('batch needs at least one port');
+  }
+
+  const pending = new Map<number, Pending>();
+  let serial = 0;
+
+  for (let i = 0; i < ports.length; i++) {
+    const receive = (data: unknown): void => {
+      if (!isReply(data)) return;
+      const task = pending.get(data.id);
+      if (!task) return;
+      pending.delete(data.id);
+      if (data.error === undefined) task.resolve();
+      else task.reject(new Error(data.error));
+    };
+    const fail = (): void => {
+      for (const [id, task] of pending) {
+        if (task.port !== i) continue;
+        pending.delete(id);
+        task.reject(new Error('batch worker failed'));
+      }
+    };
+    listen(ports[i], receive, fail);
+  }
+
+  const dispatch = (count: number, base: Omit<BatchJob, 'start' | 'end'>): Promise<void> => {
+    const chunk = Math.ceil(count / ports.length);
+    const tasks: Promise<void>[] = [];
+    for (let i = 0, start = 0; start < count; i++, start += chunk) {
+      const port = ports[i];
+      const id = ++serial;
+      const job: BatchJob = { ...base, start, end: Math.min(count, start + chunk) };
+      tasks.push(
+        new Promise((resolve, reject) => {
+          pending.set(id, { port: i, resolve, reject });
+          port.postMessage({ id, job });
+        }),
+      );
+    }
+    return Promise.all(tasks).then(() => {});
+  };
+
+  const defaults = { from: 'rgb', to: 'rgb', key: 0, method: 'oklab' } as const;
+
+  return {
+    convert: async (
+      input: Float32Array,
+      output: Float32Array,
+      from: Space,
+      to: Space,
+    ): Promise<void> => {
+      assertShared(input, output);
+      await dispatch(Math.trunc(input.length / 3), {
+        ...defaults,
+        kind: 'convert',
+        input,
+        output,
+        from,
+        to,
+      });
+    },
+    sort: async (input: Float32Array, from: Space, by: SortKey): Promise<Uint32Array> => {
+      assertShared(input);
+      const count = Math.trunc(input.length / 3);
+      const keys = toShared(count);
+      const key = by === 'luminance' ? 0 : by === 'chroma' ? 1 : 2;
+      await dispatch(count, { ...defaults, kind: 'keys', input, output: keys, from, key });
+
+      const sorted = Uint32Array.from({ length: count }, (_, i) => i).toSorted(
+        (x, y) => keys[x] - keys[y],
+      );
+      const order = new Uint32Array(new SharedArrayBuffer(count * 4));
+      order.set(sorted);
+      return order;
+    },
+    distances: async (
+      input: Float32Array,
+      from: Space,
+      method: DistanceMethod = 'oklab',
+    ): Promise<Float32Array> => {
+      assertShared(input);
+      const count = Math.trunc(input.length / 3);
+      const output = toShared(count * count);
+      await dispatch(count, { ...defaults, kind: 'distance', input, output, from, method });
+      return output;
+    },
+  };
+}
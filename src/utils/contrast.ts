@@ -27,12 +27,16 @@ const calculateLc = (v_t: number, v_b: number): number => {
   return Math.abs(result) < 0.075 ? 0 : result;
 };
 
-export function getContrast(text: Color<Space>, background: Color<Space>): number {
-  mutateColor(text, 'xyz65');
-  mutateColor(background, 'xyz65');
+const XYZ = new Float32Array(3);
+
+const readY = (color: Color<Space>): number => {
+  convertColor(color.value, XYZ, color.space, 'xyz65');
+  return XYZ[1];
+};
 
-  const vt = getSapcV(text.value[1]);
-  const vb = getSapcV(background.value[1]);
+export function getContrast(text: Color<Space>, background: Color<Space>): number {
+  const vt = getSapcV(readY(text));
+  const vb = getSapcV(readY(background));
   const Lc = calculateLc(vt, vb) * 100;
 
   return Math.abs(Lc) < 0.1 ? 0 : Math.round(Lc * 10) / 10;
@@ -53,11 +57,8 @@ export function getContrastRating(
 }
 
 export function getContrastRatio(colorA: Color<Space>, colorB: Color<Space>): number {
-  mutateColor(colorA, 'xyz65');
-  mutateColor(colorB, 'xyz65');
-
-  const l1 = colorA.value[1];
-  const l2 = colorB.value[1];
+  const l1 = readY(colorA);
+  const l2 = readY(colorB);
 
   return l1 > l2 ? (l1 + 0.05) / (l2 + 0.05) : (l2 + 0.05) / (l1 + 0.05);
 }
@@ -81,11 +82,11 @@ export function matchContrast(
   targetContrast: number,
 ): void {
   mutateColor(color, 'oklch');
-  mutateColor(background, 'xyz65');
 
   const v = color.value;
-  const vb = getSapcV(background.value[1]);
-  const isDark = background.value[1] < 0.5;
+  const yb = readY(background);
+  const vb = getSapcV(yb);
+  const isDark = yb < 0.5;
 
   let low = 0;
   let high = 1;
@@ -124,16 +125,14 @@ export function pickContrast(
   background: Color<Space>,
   options: Readonly<Color<Space>[]>,
 ): Color<Space> {
-  mutateColor(background, 'xyz65');
-  const vb = getSapcV(background.value[1]);
+  const vb = getSapcV(readY(background));
 
   let ref = -1;
   let res = options[0];
 
   for (let i = 0; i < options.length; i++) {
     const opt = options[i];
-    mutateColor(opt, 'xyz65');
-    const vt = getSapcV(opt.value[1]);
+    const vt = getSapcV(readY(opt));
     const score = Math.abs(calculateLc(vt, vb));
     if (score > ref) {
       ref = score;
@@ -0,0 +1,195 @@
+import { DEAD_CELL, cloneColor, deriveColor, dropColor, mutateColor } from '../api/color';
+import { formatCss } from '../api/format';
+import { parseColor } from '../api/parse';
+import type { Color, Space } from '../lib/types';
+import { blacken, darken, desaturate, invert, lighten, rotate, saturate, whiten } from './adjust';
+import { getDistance, isEqual } from './analyze';
+import { getContrast, getContrastRatio } from './contrast';
+import { inGamut, toGamut } from './gamut';
+import { mixColor } from './palette';
+
+export type ColorInput = string | Color<Space> | ChromaColor;
+
+const borrow = <S extends Space>(temp: Color<S>): Color<S> => {
+  if (temp.value === DEAD_CELL) {
+    throw new Error('matrix pool is exhausted');
+  }
+  return temp;
+};
+
+export class ChromaColor<S extends Space = Space> {
+  readonly space: S;
+  readonly alpha: number;
+  readonly #value: Float32Array;
+
+  constructor(space: S, values: ArrayLike<number>, alpha = 1) {
+    if (values === DEAD_CELL) {
+      throw new Error('color is a dead cell');
+    }
+    this.space = space;
+    this.alpha = alpha;
+    this.#value = new Float32Array([values[0], values[1], values[2]]);
+  }
+
+  get channels(): readonly [number, number, number] {
+    const v = this.#value;
+    return [v[0], v[1], v[2]];
+  }
+
+  get lightness(): number {
+    return this.#read((c) => c.value[0], 'oklch');
+  }
+
+  get chroma(): number {
+    return this.#read((c) => c.value[1], 'oklch');
+  }
+
+  get hue(): number {
+    return this.#read((c) => c.value[2], 'oklch');
+  }
+
+  to<T extends Space>(space: T): ChromaColor<T> {
+    return this.#read((c) => new ChromaColor(space, c.value, c.alpha), space);
+  }
+
+  withAlpha(alpha: number): ChromaColor<S> {
+    return new ChromaColor(this.space, this.#value, alpha);
+  }
+
+  lighten(ratio: number): ChromaColor<S> {
+    return this.#apply((c) => {
+      lighten(c, ratio);
+    });
+  }
+
+  darken(ratio: number): ChromaColor<S> {
+    return this.#apply((c) => {
+      darken(c, ratio);
+    });
+  }
+
+  saturate(ratio: number): ChromaColor<S> {
+    return this.#apply((c) => {
+      saturate(c, ratio);
+    });
+  }
+
+  desaturate(ratio: number): ChromaColor<S> {
+    return this.#apply((c) => {
+      desaturate(c, ratio);
+    });
+  }
+
+  whiten(ratio: number): ChromaColor<S> {
+    return this.#apply((c) => {
+      whiten(c, ratio);
+    });
+  }
+
+  blacken(ratio: number): ChromaColor<S> {
+    return this.#apply((c) => {
+      blacken(c, ratio);
+    });
+  }
+
+  rotate(angle: number): ChromaColor<S> {
+    return this.#apply((c) => {
+      rotate(c, angle);
+    });
+  }
+
+  invert(): ChromaColor<S> {
+    return this.#apply(invert);
+  }
+
+  toGamut(): ChromaColor<S> {
+    return this.#apply(toGamut);
+  }
+
+  mix(other: ColorInput, ratio = 0.5): ChromaColor<S> {
+    const target = color(other).#view();
+    return this.#apply((c) => {
+      this.#with(target, (t) => {
+        mixColor(c, t, ratio);
+      });
+    });
+  }
+
+  inGamut(): boolean {
+    return inGamut(this.#view());
+  }
+
+  contrast(background: ColorInput): number {
+    return getContrast(this.#view(), color(background).#view());
+  }
+
+  contrastRatio(other: ColorInput): number {
+    return getContrastRatio(this.#view(), color(other).#view());
+  }
+
+  distance(other: ColorInput, method: 'oklab' | 'deltaE2000' | 'itp' = 'oklab'): number {
+    return getDistance(this.#view(), color(other).#view(), method);
+  }
+
+  equals(other: ColorInput, tolerance = 0.001): boolean {
+    return isEqual(this.#view(), color(other).#view(), tolerance);
+  }
+
+  css(space?: Space, precision = 2): string {
+    if (!space || space === (this.space as string)) {
+      return formatCss(this.#view(), false, precision);
+    }
+    return this.to(space).css(space, precision);
+  }
+
+  hex(): string {
+    return this.#read((c) => formatCss(c, true), 'rgb');
+  }
+
+  toColor(): Color<S> {
+    return { space: this.space, value: new Float32Array(this.#value), alpha: this.alpha };
+  }
+
+  toString(): string {
+    return this.css();
+  }
+
+  #view(): Color<S> {
+    return { space: this.space, value: this.#value, alpha: this.alpha };
+  }
+
+  #with<T>(target: Color<Space>, fn: (color: Color<Space>) => T): T {
+    const temp = borrow(cloneColor(target));
+    try {
+      return fn(temp);
+    } finally {
+      dropColor(temp);
+    }
+  }
+
+  #read<T>(fn: (color: Color<Space>) => T, space: Space = this.space): T {
+    const temp = borrow(deriveColor(this.#view(), space));
+    try {
+      return fn(temp);
+    } finally {
+      dropColor(temp);
+    }
+  }
+
+  #apply(fn: (color: Color<Space>) => void): ChromaColor<S> {
+    const temp: Color<Space> = borrow(cloneColor(this.#view()));
+    try {
+      fn(temp);
+      mutateColor(temp, this.space);
+      return new ChromaColor(this.space, temp.value, temp.alpha);
+    } finally {
+      dropColor(temp);
+    }
+  }
+}
+
+export function color(input: ColorInput): ChromaColor {
+  if (input instanceof ChromaColor) return input;
+  const source = typeof input === 'string' ? parseColor(input) : input;
+  return new ChromaColor(source.space, source.value, source.alpha);
+}
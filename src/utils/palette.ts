@@ -1,17 +1,20 @@
+import { findChannels } from '../api/channel';
 import { createMatrix, mutateColor } from '../api/color';
-import type { Color, Space } from '../lib/types';
+import { carryForward } from '../api/mix';
+import type { Color, Mutable, Space } from '../lib/types';
 
 const ensurePolar = (color: Color<Space>): void => {
   const s = color.space;
-  if (s === 'oklab') {
-    mutateColor(color, 'oklch');
-  } else if (s === 'lab') {
-    mutateColor(color, 'lch');
-  } else if (s !== 'oklch' && s !== 'lch' && s !== 'hsl' && s !== 'hwb') {
-    mutateColor(color, 'oklch');
-  }
+  if (findChannels(s)?.polar === true) return;
+
+  const to = s === 'lab' ? 'lch' : 'oklch';
+  carryForward(color, color.value, to);
+  const ref = color as Mutable<Color<Space>>;
+  ref.space = to;
 };
 
+const carry = (own: number, other: number): number => (Number.isNaN(own) ? other : own);
+
 export function mixColor(colorA: Color<Space>, colorB: Color<Space>, ratio: number): void {
   ensurePolar(colorA);
   ensurePolar(colorB);
@@ -21,20 +24,23 @@ export function mixColor(colorA: Color<Space>, colorB: Color<Space>, ratio: numb
   const w = ratio < 0 ? 0 : Math.min(ratio, 1);
 
   const { space } = colorA;
-  const hIdx =
-    space === 'oklch' || space === 'lch' || space === 'hsl' ? 2 : space === 'hwb' ? 0 : -1;
+  const hIdx = findChannels(space)?.hue ?? -1;
 
   for (let i = 0; i < 3; i++) {
+    const a = carry(vA[i], vB[i]);
+    const b = carry(vB[i], a);
     if (i === hIdx) {
-      const dH = vB[i] - vA[i];
+      const dH = b - a;
       const shortestHue = dH - 360 * Math.round(dH / 360);
-      vA[i] = (vA[i] + shortestHue * w + 360) % 360;
+      vA[i] = (a + shortestHue * w + 360) % 360;
     } else {
-      vA[i] = vA[i] + (vB[i] - vA[i]) * w;
+      vA[i] = a + (b - a) * w;
     }
   }
 
-  colorA.alpha = colorA.alpha + (colorB.alpha - colorA.alpha) * w;
+  const alphaA = carry(colorA.alpha, colorB.alpha);
+  const alphaB = carry(colorB.alpha, alphaA);
+  colorA.alpha = alphaA + (alphaB - alphaA) * w;
 }
 
 export function mixSubtractive(
@@ -68,7 +74,7 @@ export function createHarmony(input: Color<Space>, ratios: Readonly<number[]>):
   ensurePolar(input);
   const result: Color<Space>[] = [];
   const { space, value } = input;
-  const hIdx = space === 'oklch' || space === 'lch' || space === 'hsl' ? 2 : 0;
+  const hIdx = findChannels(space)?.hue ?? 0;
 
   for (let i = 0; i < ratios.length; i++) {
     const val = createMatrix();
@@ -126,13 +132,13 @@ export function createScales(stops: Readonly<Color<Space>[]>, steps: number): Co
 
 const WHITE: Color<'oklch'> = {
   space: 'oklch',
-  value: new Float32Array([1, 0, 0]),
+  value: new Float32Array([1, 0, NaN]),
   alpha: 1,
 };
 
 const BLACK: Color<'oklch'> = {
   space: 'oklch',
-  value: new Float32Array([0, 0, 0]),
+  value: new Float32Array([0, 0, NaN]),
   alpha: 1,
 };
 
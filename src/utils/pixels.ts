@@ -0,0 +1,41 @@
+import { convertColor } from '../api/convert';
+import type { Color, Mutable, Space } from '../lib/types';
+
+export type PixelBuffer = Uint8ClampedArray | Readonly<{ data: Uint8ClampedArray }>;
+
+export type PixelOperation = (color: Color<Space>) => void;
+
+const I255 = 1 / 255;
+const BYTES = Float32Array.from({ length: 256 }, (_, i) => i * I255);
+const SCRATCH = new Float32Array(3);
+
+function toByte(v: number): number {
+  if (!(v > 0)) return 0;
+  if (v >= 1) return 255;
+  return Math.round(v * 255);
+}
+
+export function mapPixels(pixels: PixelBuffer, operation: PixelOperation): void {
+  const data = pixels instanceof Uint8ClampedArray ? pixels : pixels.data;
+  const color: Mutable<Color<Space>> = { space: 'rgb', value: SCRATCH, alpha: 1 };
+  const v = SCRATCH;
+
+  for (let i = 0; i + 3 < data.length; i += 4) {
+    color.space = 'rgb';
+    color.alpha = BYTES[data[i + 3]];
+    v[0] = BYTES[data[i]];
+    v[1] = BYTES[data[i + 1]];
+    v[2] = BYTES[data[i + 2]];
+
+    operation(color);
+
+    if (color.space !== 'rgb') {
+      convertColor(v, v, color.space, 'rgb');
+    }
+
+    data[i] = toByte(v[0]);
+    data[i + 1] = toByte(v[1]);
+    data[i + 2] = toByte(v[2]);
+    data[i + 3] = toByte(color.alpha);
+  }
+}
@@ -0,0 +1,120 @@
+import { findNamedColor } from '../api/named';
+import { tryParseColor } from '../api/strict';
+import type { Color, Space } from '../lib/types';
+
+export type ColorMatch = Readonly<{
+  start: number;
+  end: number;
+  text: string;
+  color: Color<Space>;
+}>;
+
+export type ScanOptions = Readonly<{ named?: boolean }>;
+
+export type ColorReplacer = (match: ColorMatch) => string | undefined;
+
+type Context = 'value' | 'text' | 'string';
+
+const CANDIDATE =
+  /(?<![\w&])#[0-9a-f]{3,8}(?![\w-])|(?<![\w$@.-])(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix)\(|(?<![\w$@#./-])[a-z]+(?![\w(./-])/gi;
+
+const closeOf = (source: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    const c = source.codePointAt(i) ?? 0;
+    if (c === 40) depth++;
+    else if (c === 41 && --depth === 0) return i + 1;
+  }
+  return -1;
+};
+
+const trackContext = (source: string): ((end: number) => Context) => {
+  let pos = 0;
+  let value = false;
+  let comment = false;
+  let quote = 0;
+
+  return (end) => {
+    for (; pos < end; pos++) {
+      const c = source.codePointAt(pos) ?? 0;
+      if (quote) {
+        if (c === 92) pos++;
+        else if (c === quote || c === 10) quote = 0;
+      } else if (comment) {
+        if (c === 42 && source.codePointAt(pos + 1) === 47) {
+          comment = false;
+          pos++;
+        }
+      } else if (c === 47 && source.codePointAt(pos + 1) === 42) {
+        comment = true;
+        pos++;
+      } else if (c === 34 || c === 39) {
+        quote = c;
+      } else if (c === 58) {
+        value = true;
+      } else if (c === 59 || c === 123 || c === 125) {
+        value = false;
+      }
+    }
+    if (quote) return 'string';
+    return value && !comment ? 'value' : 'text';
+  };
+};
+
+const readMatch = (
+  source: string,
+  start: number,
+  text: string,
+  value: boolean,
+  named: boolean,
+): ColorMatch | null => {
+  if (text.endsWith('(')) {
+    const end = closeOf(source, start + text.length - 1);
+    if (end < 0) return null;
+    const literal = source.slice(start, end);
+    const color = tryParseColor(literal);
+    return color && { start, end, text: literal, color };
+  }
+  if (!value) return null;
+
+  const color = text.startsWith('#') ? tryParseColor(text) : named ? findNamedColor(text) : null;
+  return color && { start, end: start + text.length, text, color };
+};
+
+export function findColors(source: string, options: ScanOptions = {}): ColorMatch[] {
+  const { named = true } = options;
+  const matches: ColorMatch[] = [];
+  const contextAt = trackContext(source);
+
+  CANDIDATE.lastIndex = 0;
+  for (let m = CANDIDATE.exec(source); m; m = CANDIDATE.exec(source)) {
+    const context = contextAt(m.index);
+    const match =
+      context === 'string' ? null : readMatch(source, m.index, m[0], context === 'value', named);
+    if (match) {
+      matches.push(match);
+      CANDIDATE.lastIndex = match.end;
+    }
+  }
+  return matches;
+}
+
+export function replaceColors(
+  source: string,
+  replacer: ColorReplacer,
+  options: ScanOptions = {},
+): string {
+  const matches = findColors(source, options);
+  let result = '';
+  let from = 0;
+
+  for (let i = 0; i < matches.length; i++) {
+    const match = matches[i];
+    const replacement = replacer(match);
+    if (replacement !== undefined) {
+      result += source.slice(from, match.start) + replacement;
+      from = match.end;
+    }
+  }
+  return result + source.slice(from);
+}
@@ -0,0 +1,41 @@
+import { beforeEach, bench, describe } from 'vite-plus/test';
+import { createColor, mountMatrix } from '~/api/color';
+import { averageColor, getDistance, sortColors } from '~/utils/analyze';
+import { getContrast, pickContrast } from '~/utils/contrast';
+
+describe('pure-analyze', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  const a = createColor('rgb', new Float32Array([1, 0, 0]));
+  const b = createColor('hsl', new Float32Array([120, 1, 0.5]));
+  const palette = [
+    createColor('rgb', new Float32Array([0.9, 0.9, 0.9])),
+    createColor('hsl', new Float32Array([0, 0, 0.1])),
+    createColor('rgb', new Float32Array([0.2, 0.6, 0.4])),
+  ];
+  bench('analyze (pure-get-distance)', () => {
+    getDistance(a, b, 'oklab');
+  });
+  bench('analyze (pure-sort-colors)', () => {
+    sortColors(palette, 'distance', a);
+  });
+  bench('analyze (pure-average-color)', () => {
+    averageColor(palette);
+  });
+});
+
+describe('pure-contrast', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  const text = createColor('rgb', new Float32Array([0, 0, 0]));
+  const bg = createColor('hsl', new Float32Array([0, 0, 1]));
+  const options = [text, createColor('rgb', new Float32Array([0.9, 0.9, 0.9]))];
+  bench('contrast (pure-get-contrast)', () => {
+    getContrast(text, bg);
+  });
+  bench('contrast (pure-pick-contrast)', () => {
+    pickContrast(bg, options);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vite-plus/test';
+import { clearMatrix, countMatrix, createColor, mountMatrix, setExhaustion } from '~/api/color';
+import type { Color, Space } from '~/lib/types';
+import { averageColor, getDistance, isEqual, sortColors } from '~/utils/analyze';
+import {
+  getContrast,
+  getContrastRatio,
+  isAccessible,
+  matchContrast,
+  pickContrast,
+} from '~/utils/contrast';
+
+const expectUntouched = (color: Color<Space>, space: Space, values: readonly number[]): void => {
+  expect(color.space).toBe(space);
+  expect(Array.from(color.value)).toEqual(Array.from(new Float32Array(values)));
+};
+
+describe('pure-analyze', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('analyze (pure-get-distance)', () => {
+    const a = createColor('rgb', new Float32Array([1, 0, 0]));
+    const b = createColor('hsl', new Float32Array([120, 1, 0.5]));
+    const free = countMatrix();
+    for (const method of ['oklab', 'deltaE2000', 'itp'] as const) {
+      const first = getDistance(a, b, method);
+      expect(getDistance(a, b, method)).toBe(first);
+    }
+    expectUntouched(a, 'rgb', [1, 0, 0]);
+    expectUntouched(b, 'hsl', [120, 1, 0.5]);
+    expect(countMatrix()).toBe(free);
+  });
+  test('analyze (pure-sort-colors)', () => {
+    const c1 = createColor('rgb', new Float32Array([0.9, 0.9, 0.9]));
+    const c2 = createColor('hsl', new Float32Array([0, 0, 0.1]));
+    const target = createColor('rgb', new Float32Array([1, 1, 1]));
+    const free = countMatrix();
+    const byLuminance = sortColors([c1, c2], 'luminance');
+    const byDistance = sortColors([c1, c2], 'distance', target);
+    expect(byLuminance).toEqual([c2, c1]);
+    expect(byDistance).toEqual([c1, c2]);
+    expectUntouched(c1, 'rgb', [0.9, 0.9, 0.9]);
+    expectUntouched(c2, 'hsl', [0, 0, 0.1]);
+    expectUntouched(target, 'rgb', [1, 1, 1]);
+    expect(countMatrix()).toBe(free);
+  });
+  test('analyze (pure-average-color)', () => {
+    const c1 = createColor('rgb', new Float32Array([1, 0, 0]));
+    const c2 = createColor('hsl', new Float32Array([240, 1, 0.5]));
+    const free = countMatrix();
+    const avg = averageColor([c1, c2]);
+    expect(avg.space).toBe('oklab');
+    expectUntouched(c1, 'rgb', [1, 0, 0]);
+    expectUntouched(c2, 'hsl', [240, 1, 0.5]);
+    expect(countMatrix()).toBe(free - 1);
+  });
+  test('analyze (pure-is-equal)', () => {
+    const a = createColor('rgb', new Float32Array([1, 0, 0]));
+    const b = createColor('hsl', new Float32Array([0, 1, 0.5]));
+    const free = countMatrix();
+    expect(isEqual(a, b, 0.001)).toBe(true);
+    expectUntouched(b, 'hsl', [0, 1, 0.5]);
+    expect(countMatrix()).toBe(free);
+  });
+});
+
+describe('pure-contrast', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('contrast (pure-get-contrast)', () => {
+    const text = createColor('rgb', new Float32Array([0, 0, 0]));
+    const bg = createColor('hsl', new Float32Array([0, 0, 1]));
+    const free = countMatrix();
+    expect(getContrast(text, bg)).toBe(getContrast(text, bg));
+    expect(getContrastRatio(text, bg)).toBeCloseTo(21, 1);
+    expect(isAccessible(text, bg)).toBe(true);
+    expectUntouched(text, 'rgb', [0, 0, 0]);
+    expectUntouched(bg, 'hsl', [0, 0, 1]);
+    expect(countMatrix()).toBe(free);
+  });
+  test('contrast (pure-pick-contrast)', () => {
+    const bg = createColor('rgb', new Float32Array([1, 1, 1]));
+    const dark = createColor('hsl', new Float32Array([0, 0, 0.1]));
+    const light = createColor('rgb', new Float32Array([0.9, 0.9, 0.9]));
+    const free = countMatrix();
+    expect(pickContrast(bg, [light, dark])).toBe(dark);
+    expectUntouched(bg, 'rgb', [1, 1, 1]);
+    expectUntouched(dark, 'hsl', [0, 0, 0.1]);
+    expectUntouched(light, 'rgb', [0.9, 0.9, 0.9]);
+    expect(countMatrix()).toBe(free);
+  });
+  test('contrast (pure-match-contrast-background)', () => {
+    const color = createColor('rgb', new Float32Array([0.5, 0.5, 0.5]));
+    const bg = createColor('rgb', new Float32Array([1, 1, 1]));
+    matchContrast(color, bg, 75);
+    expect(color.space).toBe('oklch');
+    expectUntouched(bg, 'rgb', [1, 1, 1]);
+  });
+});
+
+describe('pure-exhausted-pool', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  afterEach(() => {
+    setExhaustion('dead');
+  });
+  test('analyze (exhausted-pool)', () => {
+    const a = createColor('rgb', new Float32Array([1, 0, 0]));
+    const b = createColor('rgb', new Float32Array([0, 0, 1]));
+    const distances = (['oklab', 'deltaE2000', 'itp'] as const).map((m) => getDistance(a, b, m));
+    const contrast = getContrast(a, b);
+    const sorted = sortColors([a, b], 'luminance');
+    setExhaustion('throw');
+    clearMatrix();
+    expect((['oklab', 'deltaE2000', 'itp'] as const).map((m) => getDistance(a, b, m))).toEqual(
+      distances,
+    );
+    expect(getContrast(a, b)).toBe(contrast);
+    expect(sortColors([a, b], 'luminance')).toEqual(sorted);
+    expect(sortColors([a, b], 'distance', b)[0]).toBe(b);
+    expect(isEqual(a, { space: 'hsl', value: new Float32Array([0, 1, 0.5]), alpha: 1 })).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterAll, bench, describe } from 'vite-plus/test';
+import { convertBuffer } from '~/api/buffer';
+import { createBatch, serveBatch } from '~/utils/batch';
+
+const COUNT = 4096;
+
+const channel = new MessageChannel();
+serveBatch(channel.port2);
+const batch = createBatch([channel.port1]);
+
+const input = new Float32Array(new SharedArrayBuffer(COUNT * 12));
+const output = new Float32Array(new SharedArrayBuffer(COUNT * 12));
+for (let i = 0; i < input.length; i++) {
+  input[i] = (i % 255) / 255;
+}
+
+afterAll(() => {
+  channel.port1.close();
+  channel.port2.close();
+});
+
+describe('create-batch', () => {
+  bench('batch (convert-direct)', () => {
+    convertBuffer(input, output, 'rgb', 'oklch');
+  });
+  bench('batch (convert-via-port)', async () => {
+    await batch.convert(input, output, 'rgb', 'oklch');
+  });
+  bench('batch (sort)', async () => {
+    await batch.sort(input, 'rgb', 'hue');
+  });
+});
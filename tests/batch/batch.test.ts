@@ -0,0 +1,148 @@
+import { Worker } from 'node:worker_threads';
+import { afterAll, describe, expect, test } from 'vite-plus/test';
+import { convertBuffer } from '~/api/buffer';
+import { createColor } from '~/api/color';
+import { createSharedPool } from '~/api/shared';
+import type { Color, Space } from '~/lib/types';
+import { getDistance, sortColors } from '~/utils/analyze';
+import type { BatchPort } from '~/utils/batch';
+import { createBatch, serveBatch } from '~/utils/batch';
+
+const channels = [new MessageChannel(), new MessageChannel()];
+for (const channel of channels) {
+  serveBatch(channel.port2);
+}
+const batch = createBatch(channels.map((channel) => channel.port1));
+
+const COLORS = [1, 0, 0, 0, 0.5, 0, 0.2, 0.4, 0.9, 1, 1, 1, 0, 0, 0];
+
+const toShared = (values: readonly number[]): Float32Array => {
+  const array = new Float32Array(new SharedArrayBuffer(values.length * 4));
+  array.set(values);
+  return array;
+};
+
+const createDeadPort = (): BatchPort & { emit: (type: string) => void } => {
+  type Listener = (event: Readonly<{ data: unknown }>) => void;
+  const listeners = new Map<string, Listener>();
+  return {
+    postMessage: () => {},
+    addEventListener: (type: string, listener: Listener) => {
+      listeners.set(type, listener);
+    },
+    emit: (type) => listeners.get(type)?.({ data: null }),
+  };
+};
+
+const createDeadNodePort = (): BatchPort & { emit: (type: string) => void } => {
+  type Listener = (data: unknown) => void;
+  const listeners = new Map<string, Listener>();
+  return {
+    postMessage: () => {},
+    on: (type: string, listener: Listener) => {
+      listeners.set(type, listener);
+    },
+    emit: (type) => listeners.get(type)?.(null),
+  };
+};
+
+afterAll(() => {
+  for (const channel of channels) {
+    channel.port1.close();
+    channel.port2.close();
+  }
+});
+
+describe('create-batch', () => {
+  test('batch (convert)', async () => {
+    const input = toShared(COLORS);
+    const output = toShared(COLORS.map(() => 0));
+    const expected = new Float32Array(COLORS.length);
+    convertBuffer(new Float32Array(COLORS), expected, 'rgb', 'oklch');
+    await batch.convert(input, output, 'rgb', 'oklch');
+    expect([...output]).toEqual([...expected]);
+  });
+  test('batch (convert-in-place)', async () => {
+    const input = toShared(COLORS);
+    await batch.convert(input, input, 'rgb', 'lab');
+    await batch.convert(input, input, 'lab', 'rgb');
+    input.forEach((v, i) => {
+      expect(v).toBeCloseTo(COLORS[i], 4);
+    });
+  });
+  test('batch (sort)', async () => {
+    const order = await batch.sort(toShared(COLORS), 'rgb', 'luminance');
+    expect(order.buffer).toBeInstanceOf(SharedArrayBuffer);
+    const colors: Color<Space>[] = [0, 1, 2, 3, 4].map((i) =>
+      createColor('rgb', new Float32Array(COLORS.slice(i * 3, i * 3 + 3))),
+    );
+    const sorted = sortColors([...colors], 'luminance');
+    expect([...order]).toEqual(sorted.map((color) => colors.indexOf(color)));
+  });
+  test('batch (distances)', async () => {
+    const matrix = await batch.distances(toShared(COLORS), 'rgb', 'deltaE2000');
+    expect(matrix).toHaveLength(25);
+    const a = createColor('rgb', new Float32Array(COLORS.slice(0, 3)));
+    const b = createColor('rgb', new Float32Array(COLORS.slice(6, 9)));
+    expect(matrix[2]).toBeCloseTo(getDistance(a, b, 'deltaE2000'), 3);
+    expect(matrix[0]).toBe(0);
+    expect(matrix[2 * 5]).toBeCloseTo(matrix[2], 3);
+  });
+  test('batch (shared-pool-cells)', async () => {
+    const pool = createSharedPool(4);
+    const color = pool.createColor('rgb', new Float32Array([1, 0.5, 0]));
+    const data = new Float32Array(pool.buffer, color.value.byteOffset, 3);
+    await batch.convert(data, data, 'rgb', 'oklab');
+    expect(color.value[0]).toBeCloseTo(0.7311, 3);
+  });
+  test('batch (errors)', async () => {
+    expect(() => createBatch([])).toThrow('batch needs at least one port');
+    await expect(batch.sort(new Float32Array(3), 'rgb', 'hue')).rejects.toThrow(
+      'batch buffers must be shared',
+    );
+    await expect(batch.convert(toShared([1, 0, 0]), toShared([0]), 'rgb', 'lab')).rejects.toThrow(
+      'buffer is too small',
+    );
+  });
+  test('batch (convert-rejects)', async () => {
+    const result = batch.convert(new Float32Array(3), new Float32Array(3), 'rgb', 'lab');
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).rejects.toThrow('batch buffers must be shared');
+  });
+  test('batch (worker-failure)', async () => {
+    const ports = [createDeadPort(), createDeadNodePort()];
+    const failing = createBatch(ports);
+    const converted = failing.convert(toShared(COLORS), toShared(COLORS), 'rgb', 'lab');
+    const sorted = failing.sort(toShared(COLORS), 'rgb', 'hue');
+    ports[0].emit('error');
+    ports[1].emit('exit');
+    await expect(converted).rejects.toThrow('batch worker failed');
+    await expect(sorted).rejects.toThrow('batch worker failed');
+  });
+});
+
+describe('create-batch-workers', () => {
+  const workers = [0, 1].map(() => new Worker(new URL('worker.mjs', import.meta.url)));
+
+  afterAll(async () => {
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  });
+
+  test('batch (worker-threads)', async () => {
+    const input = toShared(COLORS);
+    const expected = new Float32Array(COLORS.length);
+    convertBuffer(new Float32Array(COLORS), expected, 'rgb', 'oklch');
+    await createBatch(workers).convert(input, input, 'rgb', 'oklch');
+    expect([...input]).toEqual([...expected]);
+  });
+  test('batch (worker-crash)', async () => {
+    const crashing = new Worker(
+      "require('node:worker_threads').parentPort.on('message', () => { throw new Error('crash'); });",
+      { eval: true },
+    );
+    const failing = createBatch([workers[0], crashing]);
+    await expect(failing.convert(toShared(COLORS), toShared(COLORS), 'rgb', 'lab')).rejects.toThrow(
+      'batch worker failed',
+    );
+  });
+});
@@ -0,0 +1,7 @@
+import { runnerImport } from 'vite-plus';
+
+await runnerImport(new URL('worker.ts', import.meta.url).pathname, {
+  configFile: false,
+  logLevel: 'silent',
+  resolve: { alias: { '~': new URL('../../src', import.meta.url).pathname } },
+});
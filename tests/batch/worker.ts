@@ -0,0 +1,4 @@
+import { parentPort } from 'node:worker_threads';
+import { serveBatch } from '~/utils/batch';
+
+if (parentPort) serveBatch(parentPort);
@@ -0,0 +1,22 @@
+import { beforeEach, bench, describe } from 'vite-plus/test';
+import { findChannels, getChannel, setChannel } from '~/api/channel';
+import { createColor, mountMatrix } from '~/api/color';
+
+describe('channel', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  const color = createColor('oklch', new Float32Array([0.5, 0.1, 30]));
+  bench('channel (find-channels)', () => {
+    findChannels('oklch');
+  });
+  bench('channel (get-channel)', () => {
+    getChannel(color, 'h');
+  });
+  bench('channel (set-channel)', () => {
+    setChannel(color, 'l', 0.6);
+  });
+  bench('channel (value-index)', () => {
+    color.value[0] = 0.6;
+  });
+});
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, test } from 'vite-plus/test';
+import { findChannels, getChannel, setChannel } from '~/api/channel';
+import { createColor, mountMatrix } from '~/api/color';
+import { createColor64 } from '~/api/color64';
+import { registerSpace } from '~/api/space';
+import type { ConvertFn } from '~/lib/types';
+import { isEqual } from '~/utils/analyze';
+import { createHarmony, mixColor } from '~/utils/palette';
+
+declare module '~/lib/types' {
+  interface SpaceRegistry {
+    'channel-cmy': readonly ['c', 'm', 'y'];
+  }
+}
+
+const invert: ConvertFn = (input, output) => {
+  output[0] = 1 - input[0];
+  output[1] = 1 - input[1];
+  output[2] = 1 - input[2];
+};
+
+registerSpace({
+  id: 'channel-cmy',
+  base: 'rgb',
+  toBase: invert,
+  fromBase: invert,
+  channels: ['c', 'm', { name: 'y', range: [0, 1], unit: 'percent' }],
+});
+
+describe('find-channels', () => {
+  test('channel (find-channels-polar)', () => {
+    expect(findChannels('oklch')?.hue).toBe(2);
+    expect(findChannels('lch')?.hue).toBe(2);
+    expect(findChannels('hsl')?.hue).toBe(0);
+    expect(findChannels('hsv')?.hue).toBe(0);
+    expect(findChannels('hwb')?.hue).toBe(0);
+    expect(findChannels('hsl')?.polar).toBe(true);
+  });
+  test('channel (find-channels-rectangular)', () => {
+    const layout = findChannels('oklab');
+    expect(layout?.polar).toBe(false);
+    expect(layout?.hue).toBe(-1);
+    expect(layout?.channels.map((c) => c.name)).toEqual(['l', 'a', 'b']);
+    expect(layout?.channels[1].range).toEqual([-0.4, 0.4]);
+  });
+  test('channel (find-channels-units)', () => {
+    const layout = findChannels('hwb');
+    expect(layout?.channels.map((c) => c.unit)).toEqual(['degree', 'percent', 'percent']);
+    expect(findChannels('lab')?.channels[1].range).toEqual([-125, 125]);
+  });
+  test('channel (find-channels-registered)', () => {
+    const layout = findChannels('channel-cmy');
+    expect(layout?.channels.map((c) => c.name)).toEqual(['c', 'm', 'y']);
+    expect(layout?.channels[0]).toEqual({ name: 'c', range: [0, 1], unit: 'number' });
+    expect(layout?.channels[2].unit).toBe('percent');
+    expect(layout?.polar).toBe(false);
+  });
+});
+
+describe('get-set-channel', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('channel (get-channel)', () => {
+    const rgb = createColor('rgb', new Float32Array([0.1, 0.2, 0.3]));
+    const hwb = createColor('hwb', new Float32Array([120, 0.2, 0.3]));
+    expect(getChannel(rgb, 'b')).toBeCloseTo(0.3);
+    expect(getChannel(hwb, 'h')).toBe(120);
+    expect(getChannel(hwb, 'b')).toBeCloseTo(0.3);
+  });
+  test('channel (set-channel)', () => {
+    const color = createColor('oklch', new Float32Array([0.5, 0.1, 30]));
+    setChannel(color, 'l', 0.8);
+    setChannel(color, 'h', 200);
+    expect(color.value[0]).toBeCloseTo(0.8);
+    expect(color.value[2]).toBe(200);
+  });
+  test('channel (set-channel-64)', () => {
+    const color = createColor64('lab', new Float64Array([50, 10, 20]));
+    setChannel(color, 'a', -12.5);
+    expect(getChannel(color, 'a')).toBe(-12.5);
+  });
+  test('channel (get-channel-registered)', () => {
+    const color = createColor('channel-cmy', new Float32Array([0, 0.5, 1]));
+    expect(getChannel(color, 'm')).toBe(0.5);
+  });
+  test('channel (get-channel-unknown)', () => {
+    const color = createColor('rgb', new Float32Array([0, 0, 0]));
+    // @ts-expect-error rgb has no hue channel
+    expect(() => getChannel(color, 'h')).toThrow('unknown channel h for rgb');
+  });
+});
+
+describe('channel-utilities', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('channel (mix-color-hsl-hue)', () => {
+    const colorA = createColor('hsl', new Float32Array([350, 0.5, 0.5]));
+    const colorB = createColor('hsl', new Float32Array([30, 0.5, 0.5]));
+    mixColor(colorA, colorB, 0.5);
+    expect(colorA.space).toBe('hsl');
+    expect(colorA.value[0]).toBeCloseTo(10);
+    expect(colorA.value[2]).toBeCloseTo(0.5);
+  });
+  test('channel (create-harmony-hsv-hue)', () => {
+    const color = createColor('hsv', new Float32Array([300, 0.5, 0.5]));
+    const [complement] = createHarmony(color, [180]);
+    expect(complement.space).toBe('hsv');
+    expect(complement.value[0]).toBeCloseTo(120);
+    expect(complement.value[2]).toBeCloseTo(0.5);
+  });
+  test('channel (is-equal-hsl-hue)', () => {
+    const a = createColor('hsl', new Float32Array([359.95, 0.5, 0.5]));
+    const b = createColor('hsl', new Float32Array([0.01, 0.5, 0.5]));
+    expect(isEqual(a, b)).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+import { bench, describe } from 'vite-plus/test';
+import {
+  cloneColor64,
+  createColor64,
+  deriveColor64,
+  dropColor64,
+  mountMatrix64,
+  mutateColor64,
+} from '~/api/color64';
+
+const values = new Float64Array([1, 0.5, 0]);
+
+describe('color-64', () => {
+  mountMatrix64(2048);
+  const source = createColor64('rgb', values);
+  bench('matrix64 (create-and-drop)', () => {
+    dropColor64(createColor64('rgb', values));
+  });
+  bench('matrix64 (clone-and-drop)', () => {
+    dropColor64(cloneColor64(source));
+  });
+  bench('matrix64 (derive-and-drop)', () => {
+    dropColor64(deriveColor64(source, 'oklch'));
+  });
+  bench('matrix64 (mutate-round-trip)', () => {
+    const color = createColor64('rgb', values);
+    mutateColor64(color, 'lab');
+    mutateColor64(color, 'rgb');
+    dropColor64(color);
+  });
+});
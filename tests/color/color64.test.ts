@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vite-plus/test';
+import { countMatrix } from '~/api/color';
+import {
+  DEAD_CELL_64,
+  clearMatrix64,
+  cloneColor64,
+  countDeadCells64,
+  countMatrix64,
+  createColor64,
+  createMatrix64,
+  deriveColor64,
+  dropColor64,
+  dropMatrix64,
+  mountMatrix64,
+  mutateColor64,
+  setExhaustion64,
+} from '~/api/color64';
+
+describe('create-matrix-64', () => {
+  beforeEach(() => {
+    mountMatrix64(2048);
+  });
+  test('matrix64 (create-instance)', () => {
+    const initialCount = countMatrix64();
+    const m = createMatrix64();
+    expect(m).toBeInstanceOf(Float64Array);
+    expect(countMatrix64()).toBe(initialCount - 1);
+  });
+  test('matrix64 (create-dead-cell)', () => {
+    clearMatrix64();
+    expect(createMatrix64()).toBe(DEAD_CELL_64);
+  });
+  test('matrix64 (create-and-drop)', () => {
+    const m = createMatrix64();
+    const count = countMatrix64();
+    dropMatrix64(m);
+    expect(countMatrix64()).toBe(count + 1);
+  });
+  test('matrix64 (separate-pool)', () => {
+    const count = countMatrix();
+    createMatrix64();
+    expect(countMatrix()).toBe(count);
+  });
+});
+
+describe('color-64', () => {
+  const values = new Float64Array([1, 0.5, 0]);
+  beforeEach(() => {
+    mountMatrix64(2048);
+  });
+  test('matrix64 (create-color)', () => {
+    const color = createColor64('rgb', values, 0.5);
+    expect(color.value).toBeInstanceOf(Float64Array);
+    expect(Array.from(color.value)).toEqual([1, 0.5, 0]);
+    expect(color.alpha).toBe(0.5);
+  });
+  test('matrix64 (drop-color)', () => {
+    const color = createColor64('rgb', values);
+    const count = countMatrix64();
+    dropColor64(color);
+    expect(countMatrix64()).toBe(count + 1);
+  });
+  test('matrix64 (clone-color)', () => {
+    const source = createColor64('rgb', values);
+    const clone = cloneColor64(source);
+    expect(clone.value).not.toBe(source.value);
+    expect(Array.from(clone.value)).toEqual([1, 0.5, 0]);
+  });
+  test('matrix64 (derive-color)', () => {
+    const source = createColor64('rgb', new Float64Array([0.5, 0.5, 0.5]));
+    const derived = deriveColor64(source, 'lrgb');
+    expect(derived.space).toBe('lrgb');
+    expect(derived.value[0]).toBeCloseTo(Math.pow(0.555 / 1.055, 2.4), 15);
+  });
+  test('matrix64 (derive-same-space)', () => {
+    const source = createColor64('rgb', values, 0.25);
+    const derived = deriveColor64(source, 'rgb');
+    expect(derived.value).not.toBe(source.value);
+    expect(derived.value).toBeInstanceOf(Float64Array);
+    expect(Array.from(derived.value)).toEqual([1, 0.5, 0]);
+    expect(derived.alpha).toBe(0.25);
+  });
+  test('matrix64 (mutate-color)', () => {
+    const color = createColor64('rgb', new Float64Array([0.2, 0.4, 0.6]));
+    mutateColor64(color, 'lab');
+    mutateColor64(color, 'rgb');
+    expect(color.value[0]).toBeCloseTo(0.2, 12);
+    expect(color.value[1]).toBeCloseTo(0.4, 12);
+    expect(color.value[2]).toBeCloseTo(0.6, 12);
+  });
+  test('matrix64 (clear-dead-cells)', () => {
+    const source = createColor64('rgb', values);
+    clearMatrix64();
+    expect(cloneColor64(source).value).toBe(DEAD_CELL_64);
+    expect(deriveColor64(source, 'lab').value).toBe(DEAD_CELL_64);
+  });
+});
+
+describe('exhaustion-64', () => {
+  const values = new Float64Array([1, 0.5, 0]);
+  beforeEach(() => {
+    mountMatrix64(2048);
+  });
+  afterEach(() => {
+    setExhaustion64('dead');
+  });
+  test('matrix64 (dead-count)', () => {
+    clearMatrix64();
+    expect(createMatrix64()).toBe(DEAD_CELL_64);
+    expect(countDeadCells64()).toBe(1);
+  });
+  test('matrix64 (throw)', () => {
+    setExhaustion64('throw');
+    clearMatrix64();
+    expect(() => createColor64('rgb', values)).toThrow('matrix pool is exhausted');
+  });
+  test('matrix64 (heap)', () => {
+    setExhaustion64('heap');
+    clearMatrix64();
+    const color = createColor64('rgb', values);
+    expect(color.value).toBeInstanceOf(Float64Array);
+    expect(color.value).not.toBe(DEAD_CELL_64);
+    expect(Array.from(color.value)).toEqual([1, 0.5, 0]);
+  });
+  test('matrix64 (warn)', () => {
+    const warn = vi.fn<() => void>();
+    setExhaustion64('warn', warn);
+    clearMatrix64();
+    createMatrix64();
+    createMatrix64();
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,16 @@
+import { bench, describe } from 'vite-plus/test';
+import { createPool } from '~/api/pool';
+
+describe('debug-pool', () => {
+  const pool = createPool({ initial: 64 });
+  const debug = createPool({ initial: 64, debug: true });
+  bench('debug (create-and-drop-off)', () => {
+    pool.dropMatrix(pool.createMatrix());
+  });
+  bench('debug (create-and-drop-on)', () => {
+    debug.dropMatrix(debug.createMatrix());
+  });
+  bench('debug (report-leaks)', () => {
+    debug.reportLeaks();
+  });
+});
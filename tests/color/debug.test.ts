@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vite-plus/test';
+import {
+  createColor,
+  createMatrix,
+  dropColor,
+  dropMatrix,
+  markCheckpoint,
+  mountMatrix,
+  reportLeaks,
+  setDebug,
+  withScope,
+} from '~/api/color';
+import { createPool } from '~/api/pool';
+import { adaptColor, getDistance } from '~/utils/analyze';
+import { inGamut, toGamut } from '~/utils/gamut';
+
+describe('debug-pool', () => {
+  const values = new Float32Array([1, 0.5, 0]);
+  beforeEach(() => {
+    mountMatrix(2048);
+    setDebug(true);
+  });
+  afterEach(() => {
+    setDebug(false);
+  });
+  test('debug (double-drop)', () => {
+    const cell = createMatrix();
+    dropMatrix(cell);
+    expect(() => {
+      dropMatrix(cell);
+    }).toThrow('matrix was already dropped');
+  });
+  test('debug (drop-never-taken)', () => {
+    const cell = createMatrix();
+    dropMatrix(cell);
+    const free = createMatrix();
+    dropMatrix(free);
+    expect(() => {
+      dropMatrix(free);
+    }).toThrow('matrix was already dropped');
+  });
+  test('debug (foreign-array)', () => {
+    expect(() => {
+      dropMatrix(new Float32Array(3));
+    }).toThrow('matrix does not belong to this pool');
+    const other = createPool({ initial: 2 });
+    expect(() => {
+      dropMatrix(other.createMatrix());
+    }).toThrow('matrix does not belong to this pool');
+  });
+  test('debug (report-outstanding)', () => {
+    const color = createColor('rgb', values);
+    const leaks = reportLeaks();
+    expect(leaks).toHaveLength(1);
+    expect(leaks[0].cell).toBe(color.value);
+    expect(leaks[0].stack).toContain('debug.test.ts');
+    dropColor(color);
+    expect(reportLeaks()).toHaveLength(0);
+  });
+  test('debug (checkpoint)', () => {
+    const before = createMatrix();
+    const mark = markCheckpoint();
+    const after = createMatrix();
+    expect(reportLeaks(mark).map((leak) => leak.cell)).toEqual([after]);
+    expect(reportLeaks()).toHaveLength(2);
+    dropMatrix(after);
+    dropMatrix(before);
+  });
+  test('debug (utilities-do-not-leak)', () => {
+    const color = createColor('rgb', new Float32Array([1.2, 0.5, -0.1]));
+    const other = createColor('rgb', values);
+    const mark = markCheckpoint();
+    inGamut(color);
+    toGamut(color);
+    getDistance(color, other, 'deltaE2000');
+    dropColor(adaptColor(color, 'd65', 'd50'));
+    expect(reportLeaks(mark)).toEqual([]);
+  });
+  test('debug (scope-release)', () => {
+    const mark = markCheckpoint();
+    withScope(() => {
+      const color = createColor('rgb', values);
+      dropColor(color);
+      createMatrix();
+    });
+    expect(reportLeaks(mark)).toEqual([]);
+  });
+  test('debug (mount-resets)', () => {
+    createMatrix();
+    mountMatrix(2048);
+    expect(reportLeaks()).toHaveLength(0);
+  });
+  test('debug (disabled)', () => {
+    setDebug(false);
+    const cell = createMatrix();
+    dropMatrix(cell);
+    expect(() => {
+      dropMatrix(cell);
+    }).not.toThrow();
+    expect(reportLeaks()).toEqual([]);
+  });
+  test('debug (pool-option)', () => {
+    const pool = createPool({ initial: 4, debug: true });
+    const cell = pool.createMatrix();
+    expect(pool.reportLeaks()).toHaveLength(1);
+    pool.dropMatrix(cell);
+    expect(() => {
+      pool.dropMatrix(cell);
+    }).toThrow('matrix was already dropped');
+  });
+});
@@ -0,0 +1,32 @@
+import { bench, describe } from 'vite-plus/test';
+import { clearMatrix, createMatrix, setExhaustion } from '~/api/color';
+
+describe('exhaustion-policy', () => {
+  bench(
+    'exhaustion (dead)',
+    () => {
+      clearMatrix();
+      createMatrix();
+    },
+    {
+      setup: () => {
+        setExhaustion('dead');
+      },
+    },
+  );
+  bench(
+    'exhaustion (heap)',
+    () => {
+      clearMatrix();
+      createMatrix();
+    },
+    {
+      setup: () => {
+        setExhaustion('heap');
+      },
+      teardown: () => {
+        setExhaustion('dead');
+      },
+    },
+  );
+});
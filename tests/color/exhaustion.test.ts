@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vite-plus/test';
+import {
+  DEAD_CELL,
+  clearMatrix,
+  cloneColor,
+  countDeadCells,
+  countMatrix,
+  createColor,
+  createMatrix,
+  deriveColor,
+  dropMatrix,
+  mountMatrix,
+  setExhaustion,
+} from '~/api/color';
+import { expectColorToBe } from '../factory';
+
+describe('exhaustion-policy', () => {
+  const values = new Float32Array([1, 0.5, 0]);
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  afterEach(() => {
+    setExhaustion('dead');
+    vi.restoreAllMocks();
+  });
+  test('exhaustion (dead-default)', () => {
+    clearMatrix();
+    expect(createMatrix()).toBe(DEAD_CELL);
+    expect(createColor('rgb', values).value).toBe(DEAD_CELL);
+    expect(countDeadCells()).toBe(2);
+  });
+  test('exhaustion (count-reset-on-mount)', () => {
+    clearMatrix();
+    createMatrix();
+    mountMatrix(10);
+    expect(countDeadCells()).toBe(0);
+  });
+  test('exhaustion (throw)', () => {
+    setExhaustion('throw');
+    const source = createColor('rgb', values);
+    clearMatrix();
+    expect(() => createMatrix()).toThrow('matrix pool is exhausted');
+    expect(() => createColor('rgb', values)).toThrow('matrix pool is exhausted');
+    expect(() => cloneColor(source)).toThrow('matrix pool is exhausted');
+    expect(() => deriveColor(source, 'lab')).toThrow('matrix pool is exhausted');
+    expect(countDeadCells()).toBe(0);
+  });
+  test('exhaustion (warn-once)', () => {
+    const warn = vi.fn<() => void>();
+    const log = vi.spyOn(console, 'warn');
+    setExhaustion('warn', warn);
+    clearMatrix();
+    expect(createMatrix()).toBe(DEAD_CELL);
+    expect(createMatrix()).toBe(DEAD_CELL);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(countDeadCells()).toBe(2);
+    setExhaustion('warn', warn);
+    createMatrix();
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(log).not.toHaveBeenCalled();
+  });
+  test('exhaustion (warn-silent)', () => {
+    const log = vi.spyOn(console, 'warn');
+    setExhaustion('warn');
+    clearMatrix();
+    expect(createMatrix()).toBe(DEAD_CELL);
+    expect(log).not.toHaveBeenCalled();
+  });
+  test('exhaustion (heap)', () => {
+    setExhaustion('heap');
+    const source = createColor('rgb', values);
+    clearMatrix();
+    const a = createColor('rgb', values);
+    const b = cloneColor(source);
+    expect(a.value).not.toBe(DEAD_CELL);
+    expect(a.value).not.toBe(b.value);
+    expectColorToBe(a.value, [1, 0.5, 0]);
+    expectColorToBe(b.value, [1, 0.5, 0]);
+    expect(countMatrix()).toBe(0);
+    expect(countDeadCells()).toBe(0);
+  });
+  test('exhaustion (grow)', () => {
+    setExhaustion('grow');
+    const cells = Array.from({ length: 2049 }, () => createMatrix());
+    expect(new Set(cells).size).toBe(2049);
+    expect(cells).not.toContain(DEAD_CELL);
+    expect(countMatrix()).toBe(2047);
+    for (const cell of cells) {
+      dropMatrix(cell);
+    }
+    expect(countMatrix()).toBe(4096);
+    mountMatrix(9999);
+    expect(countMatrix()).toBe(4096);
+  });
+  test('exhaustion (grow-copies-values)', () => {
+    setExhaustion('grow');
+    const source = createColor('rgb', values);
+    clearMatrix();
+    expectColorToBe(cloneColor(source).value, [1, 0.5, 0]);
+    expectColorToBe(createColor('rgb', values).value, [1, 0.5, 0]);
+  });
+});
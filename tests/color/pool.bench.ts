@@ -0,0 +1,24 @@
+import { bench, describe } from 'vite-plus/test';
+import { createPool } from '~/api/pool';
+
+const values = new Float32Array([1, 0.5, 0]);
+
+describe('create-pool', () => {
+  const pool = createPool({ initial: 64 });
+  const source = pool.createColor('rgb', values);
+  bench('pool (create-and-drop)', () => {
+    pool.dropColor(pool.createColor('rgb', values));
+  });
+  bench('pool (clone-and-drop)', () => {
+    pool.dropColor(pool.cloneColor(source));
+  });
+  bench('pool (derive-and-drop)', () => {
+    pool.dropColor(pool.deriveColor(source, 'oklch'));
+  });
+  bench('pool (grow-from-one)', () => {
+    const grown = createPool({ initial: 1, max: 1024 });
+    for (let i = 0; i < 1024; i++) {
+      grown.createMatrix();
+    }
+  });
+});
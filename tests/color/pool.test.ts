@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { DEAD_CELL, countMatrix, createMatrix, dropMatrix } from '~/api/color';
+import { createPool } from '~/api/pool';
+import { expectColorToBe } from '../factory';
+
+describe('create-pool', () => {
+  const values = new Float32Array([1, 0.5, 0]);
+  test('pool (defaults)', () => {
+    const pool = createPool();
+    expect(pool.countMatrix()).toBe(2048);
+    expect(pool.countCapacity()).toBe(2048);
+  });
+  test('pool (isolated-from-default)', () => {
+    const before = countMatrix();
+    const pool = createPool({ initial: 4 });
+    const cell = pool.createMatrix();
+    expect(pool.countMatrix()).toBe(3);
+    expect(countMatrix()).toBe(before);
+    const shared = createMatrix();
+    expect(shared).not.toBe(cell);
+    dropMatrix(shared);
+    pool.dropMatrix(cell);
+    expect(pool.countMatrix()).toBe(4);
+  });
+  test('pool (color-lifecycle)', () => {
+    const pool = createPool({ initial: 8 });
+    const color = pool.createColor('rgb', values, 0.5);
+    const clone = pool.cloneColor(color);
+    const lab = pool.deriveColor(color, 'lab');
+    expect(clone.value).not.toBe(color.value);
+    expectColorToBe(clone.value, [1, 0.5, 0]);
+    expect(clone.alpha).toBe(0.5);
+    expect(lab.space).toBe('lab');
+    const back = pool.deriveColor(lab, 'rgb');
+    expect(back.value[0]).toBeCloseTo(1, 4);
+    expect(back.value[1]).toBeCloseTo(0.5, 4);
+    expect(pool.countMatrix()).toBe(4);
+    pool.dropColor(color);
+    pool.dropColor(clone);
+    expect(pool.countMatrix()).toBe(6);
+  });
+  test('pool (fixed-size-exhaustion)', () => {
+    const pool = createPool({ initial: 2 });
+    pool.createMatrix();
+    pool.createMatrix();
+    expect(pool.createMatrix()).toBe(DEAD_CELL);
+    expect(pool.countDeadCells()).toBe(1);
+    expect(pool.countCapacity()).toBe(2);
+  });
+  test('pool (grow-up-to-max)', () => {
+    const pool = createPool({ initial: 2, max: 6, growth: 2 });
+    const cells = Array.from({ length: 6 }, () => pool.createMatrix());
+    expect(new Set(cells).size).toBe(6);
+    expect(cells).not.toContain(DEAD_CELL);
+    expect(pool.countCapacity()).toBe(6);
+    expect(pool.createMatrix()).toBe(DEAD_CELL);
+    for (const cell of cells) {
+      pool.dropMatrix(cell);
+    }
+    expect(pool.countMatrix()).toBe(6);
+  });
+  test('pool (grow-keeps-values)', () => {
+    const pool = createPool({ initial: 1, max: Infinity });
+    const source = pool.createColor('rgb', values);
+    const clone = pool.cloneColor(source);
+    expectColorToBe(source.value, [1, 0.5, 0]);
+    expectColorToBe(clone.value, [1, 0.5, 0]);
+    expect(pool.countCapacity()).toBe(2);
+  });
+  test('pool (policy-per-pool)', () => {
+    const pool = createPool({ initial: 1 });
+    pool.setExhaustion('throw');
+    pool.createMatrix();
+    expect(() => pool.createMatrix()).toThrow('matrix pool is exhausted');
+    expect(createMatrix()).not.toBe(DEAD_CELL);
+  });
+  test('pool (grow-policy-past-max)', () => {
+    const pool = createPool({ initial: 3 });
+    pool.setExhaustion('grow');
+    pool.clearMatrix();
+    expect(pool.createMatrix()).not.toBe(DEAD_CELL);
+    expect(pool.countCapacity()).toBe(6);
+    expect(pool.countMatrix()).toBe(2);
+  });
+  test('pool (mount-grows-to-max)', () => {
+    const pool = createPool({ initial: 2, max: 5 });
+    pool.mountMatrix(4);
+    expect(pool.countMatrix()).toBe(4);
+    pool.mountMatrix(100);
+    expect(pool.countMatrix()).toBe(5);
+    expect(pool.countCapacity()).toBe(5);
+    const cells = Array.from({ length: 5 }, () => pool.createMatrix());
+    expect(new Set(cells).size).toBe(5);
+  });
+  test('pool (invalid-options)', () => {
+    expect(() => createPool({ initial: 0 })).toThrow('pool size must be a positive integer');
+    expect(() => createPool({ initial: 1.5 })).toThrow('pool size must be a positive integer');
+    expect(() => createPool({ initial: 4, max: 2 })).toThrow('pool max must be at least initial');
+    expect(() => createPool({ growth: 1 })).toThrow('pool growth must be greater than 1');
+  });
+});
@@ -0,0 +1,30 @@
+import { bench, describe } from 'vite-plus/test';
+import { cloneColor, createColor, dropColor, mountMatrix, openScope, withScope } from '~/api/color';
+
+const values = new Float32Array([1, 0.5, 0]);
+
+describe('with-scope', () => {
+  mountMatrix(2048);
+  const source = createColor('rgb', values);
+  bench('scope (manual-drop)', () => {
+    const a = cloneColor(source);
+    const b = cloneColor(source);
+    dropColor(b);
+    dropColor(a);
+  });
+  bench('scope (with-scope)', () => {
+    withScope(() => {
+      cloneColor(source);
+      cloneColor(source);
+    });
+  });
+  bench('scope (open-scope)', () => {
+    const scope = openScope();
+    cloneColor(source);
+    cloneColor(source);
+    scope[Symbol.dispose]();
+  });
+  bench('scope (keep)', () => {
+    dropColor(withScope((scope) => scope.keep(cloneColor(source))));
+  });
+});
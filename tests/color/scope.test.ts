@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, test } from 'vite-plus/test';
+import {
+  DEAD_CELL,
+  clearMatrix,
+  cloneColor,
+  countMatrix,
+  createColor,
+  createMatrix,
+  deriveColor,
+  dropColor,
+  mountMatrix,
+  openScope,
+  withScope,
+} from '~/api/color';
+import { createPool } from '~/api/pool';
+import { expectColorToBe } from '../factory';
+
+describe('with-scope', () => {
+  const values = new Float32Array([1, 0.5, 0]);
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('scope (release-on-exit)', () => {
+    withScope(() => {
+      const color = createColor('rgb', values);
+      cloneColor(color);
+      deriveColor(color, 'oklch');
+      createMatrix();
+      expect(countMatrix()).toBe(2044);
+    });
+    expect(countMatrix()).toBe(2048);
+  });
+  test('scope (return-value)', () => {
+    const hue = withScope(() => deriveColor(createColor('rgb', values), 'oklch').value[2]);
+    expect(hue).toBeGreaterThan(0);
+    expect(countMatrix()).toBe(2048);
+  });
+  test('scope (release-on-throw)', () => {
+    expect(() =>
+      withScope(() => {
+        createColor('rgb', values);
+        throw new Error('boom');
+      }),
+    ).toThrow('boom');
+    expect(countMatrix()).toBe(2048);
+  });
+  test('scope (keep-escapes)', () => {
+    const kept = withScope((scope) => {
+      createMatrix();
+      return scope.keep(createColor('rgb', values));
+    });
+    expect(countMatrix()).toBe(2047);
+    expectColorToBe(kept.value, [1, 0.5, 0]);
+    dropColor(kept);
+    expect(countMatrix()).toBe(2048);
+  });
+  test('scope (keep-matrix)', () => {
+    const matrix = withScope((scope) => scope.keep(createMatrix()));
+    expect(matrix).toBeInstanceOf(Float32Array);
+    expect(countMatrix()).toBe(2047);
+  });
+  test('scope (manual-drop-inside)', () => {
+    withScope(() => {
+      const color = createColor('rgb', values);
+      dropColor(color);
+      createColor('rgb', values);
+    });
+    expect(countMatrix()).toBe(2048);
+    const cells = Array.from({ length: 2048 }, () => createMatrix());
+    expect(new Set(cells).size).toBe(2048);
+  });
+  test('scope (nested-keep-moves-to-parent)', () => {
+    withScope(() => {
+      const inner = withScope((scope) => scope.keep(createColor('rgb', values)));
+      expect(countMatrix()).toBe(2047);
+      expectColorToBe(inner.value, [1, 0.5, 0]);
+    });
+    expect(countMatrix()).toBe(2048);
+  });
+  test('scope (restores-pool-order)', () => {
+    const first = createMatrix();
+    dropColor({ space: 'rgb', value: first, alpha: 1 });
+    withScope(() => {
+      createMatrix();
+      createMatrix();
+    });
+    expect(createMatrix()).toBe(first);
+  });
+  test('scope (per-pool)', () => {
+    const pool = createPool({ initial: 4 });
+    pool.withScope(() => {
+      pool.createMatrix();
+      createMatrix();
+    });
+    expect(pool.countMatrix()).toBe(4);
+    expect(countMatrix()).toBe(2047);
+  });
+});
+
+describe('open-scope', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('scope (using-declaration)', () => {
+    {
+      using scope = openScope();
+      scope.keep(createMatrix());
+      createMatrix();
+      expect(countMatrix()).toBe(2046);
+    }
+    expect(countMatrix()).toBe(2047);
+  });
+  test('scope (dispose-twice)', () => {
+    const scope = openScope();
+    createMatrix();
+    scope[Symbol.dispose]();
+    scope[Symbol.dispose]();
+    expect(countMatrix()).toBe(2048);
+  });
+  test('scope (out-of-order)', () => {
+    const outer = openScope();
+    const inner = openScope();
+    expect(() => {
+      outer[Symbol.dispose]();
+    }).toThrow('scopes must be closed in reverse order');
+    inner[Symbol.dispose]();
+    outer[Symbol.dispose]();
+  });
+  test('scope (dead-cells-ignored)', () => {
+    withScope(() => {
+      clearMatrix();
+      expect(createMatrix()).toBe(DEAD_CELL);
+    });
+    expect(countMatrix()).toBe(0);
+  });
+});
@@ -0,0 +1,16 @@
+import { bench, describe } from 'vite-plus/test';
+import { createPool } from '~/api/pool';
+import { createSharedPool } from '~/api/shared';
+
+const values = new Float32Array([1, 0.5, 0]);
+
+describe('shared-pool', () => {
+  const local = createPool({ initial: 64 });
+  const shared = createSharedPool(64);
+  bench('shared (local-create-and-drop)', () => {
+    local.dropColor(local.createColor('rgb', values));
+  });
+  bench('shared (atomic-create-and-drop)', () => {
+    shared.dropColor(shared.createColor('rgb', values));
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { DEAD_CELL, createMatrix, dropMatrix } from '~/api/color';
+import { attachPool, createSharedPool } from '~/api/shared';
+import { expectColorToBe } from '../factory';
+
+describe('shared-pool', () => {
+  const values = new Float32Array([1, 0.5, 0]);
+  test('shared (shared-buffer)', () => {
+    const pool = createSharedPool(4);
+    expect(pool.buffer).toBeInstanceOf(SharedArrayBuffer);
+    expect(pool.countMatrix()).toBe(4);
+    expect(pool.countCapacity()).toBe(4);
+    const cell = pool.createMatrix();
+    expect(cell.buffer).toBe(pool.buffer);
+    expect(pool.countMatrix()).toBe(3);
+  });
+  test('shared (exhaustion)', () => {
+    const pool = createSharedPool(2);
+    const cells = [pool.createMatrix(), pool.createMatrix()];
+    expect(new Set(cells).size).toBe(2);
+    expect(pool.createMatrix()).toBe(DEAD_CELL);
+    pool.dropMatrix(cells[1]);
+    expect(pool.createMatrix()).toBe(cells[1]);
+  });
+  test('shared (color-lifecycle)', () => {
+    const pool = createSharedPool(8);
+    const color = pool.createColor('rgb', values, 0.5);
+    const clone = pool.cloneColor(color);
+    const lab = pool.deriveColor(color, 'lab');
+    expectColorToBe(clone.value, [1, 0.5, 0]);
+    expect(lab.space).toBe('lab');
+    expect(pool.countMatrix()).toBe(5);
+    pool.dropColor(color);
+    pool.dropColor(clone);
+    pool.dropColor(lab);
+    expect(pool.countMatrix()).toBe(8);
+  });
+  test('shared (attach-sees-same-cells)', () => {
+    const pool = createSharedPool(8);
+    const other = attachPool(pool.buffer);
+    const color = pool.createColor('rgb', values);
+    const index = pool.indexOf(color.value);
+    expect(other.countMatrix()).toBe(7);
+    expectColorToBe(other.cellAt(index), [1, 0.5, 0]);
+    const next = other.createMatrix();
+    expect(pool.indexOf(next)).not.toBe(index);
+    other.dropMatrix(other.cellAt(index));
+    other.dropMatrix(next);
+    expect(pool.countMatrix()).toBe(8);
+  });
+  test('shared (tag-wraparound)', () => {
+    const pool = createSharedPool(3);
+    for (let i = 0; i < 5000; i++) {
+      const a = pool.createMatrix();
+      const b = pool.createMatrix();
+      pool.dropMatrix(a);
+      pool.dropMatrix(b);
+    }
+    const cells = [pool.createMatrix(), pool.createMatrix(), pool.createMatrix()];
+    expect(new Set(cells).size).toBe(3);
+    expect(cells).not.toContain(DEAD_CELL);
+    expect(pool.countMatrix()).toBe(0);
+  });
+  test('shared (foreign-matrix)', () => {
+    const pool = createSharedPool(2);
+    const local = createMatrix();
+    expect(() => {
+      pool.dropMatrix(local);
+    }).toThrow('matrix does not belong to this pool');
+    expect(() => {
+      pool.dropMatrix(new Float32Array(3));
+    }).toThrow('matrix does not belong to this pool');
+    dropMatrix(local);
+    expect(() => {
+      pool.dropMatrix(DEAD_CELL);
+    }).not.toThrow();
+  });
+  test('shared (invalid)', () => {
+    expect(() => createSharedPool(0)).toThrow('shared pool size must be an integer');
+    expect(() => attachPool(new SharedArrayBuffer(12))).toThrow('buffer is not a shared pool');
+    expect(() => createSharedPool(2).cellAt(2)).toThrow('cell index is out of range');
+  });
+});
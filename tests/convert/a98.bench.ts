@@ -0,0 +1,62 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('convert-color-a98', () => {
+  const input = createMockArray([1, 0, 0]);
+  const output = createMockOutput();
+  bench('convert (a98-to-rgb)', () => {
+    convertColor(input, output, 'a98', 'rgb');
+  });
+  bench('convert (a98-to-hsl)', () => {
+    convertColor(input, output, 'a98', 'hsl');
+  });
+  bench('convert (a98-to-hsv)', () => {
+    convertColor(input, output, 'a98', 'hsv');
+  });
+  bench('convert (a98-to-hwb)', () => {
+    convertColor(input, output, 'a98', 'hwb');
+  });
+  bench('convert (a98-to-lab)', () => {
+    convertColor(input, output, 'a98', 'lab');
+  });
+  bench('convert (a98-to-lch)', () => {
+    convertColor(input, output, 'a98', 'lch');
+  });
+  bench('convert (a98-to-oklab)', () => {
+    convertColor(input, output, 'a98', 'oklab');
+  });
+  bench('convert (a98-to-oklch)', () => {
+    convertColor(input, output, 'a98', 'oklch');
+  });
+  bench('convert (a98-to-lrgb)', () => {
+    convertColor(input, output, 'a98', 'lrgb');
+  });
+  bench('convert (a98-to-xyz50)', () => {
+    convertColor(input, output, 'a98', 'xyz50');
+  });
+  bench('convert (a98-to-xyz65)', () => {
+    convertColor(input, output, 'a98', 'xyz65');
+  });
+  bench('convert (a98-to-p3)', () => {
+    convertColor(input, output, 'a98', 'p3');
+  });
+  bench('convert (a98-to-lp3)', () => {
+    convertColor(input, output, 'a98', 'lp3');
+  });
+  bench('convert (a98-to-rec2020)', () => {
+    convertColor(input, output, 'a98', 'rec2020');
+  });
+  bench('convert (a98-to-lrec2020)', () => {
+    convertColor(input, output, 'a98', 'lrec2020');
+  });
+  bench('convert (a98-to-la98)', () => {
+    convertColor(input, output, 'a98', 'la98');
+  });
+  bench('convert (a98-to-prophoto)', () => {
+    convertColor(input, output, 'a98', 'prophoto');
+  });
+  bench('convert (a98-to-lprophoto)', () => {
+    convertColor(input, output, 'a98', 'lprophoto');
+  });
+});
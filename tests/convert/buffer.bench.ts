@@ -0,0 +1,32 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertBuffer } from '~/api/buffer';
+import { convertColor } from '~/api/convert';
+
+describe('convert-buffer', () => {
+  const count = 4096;
+  const rgb = new Float32Array(count * 3).map((_, i) => (i % 256) / 255);
+  const rgba = new Float32Array(count * 4).map((_, i) => (i % 256) / 255);
+  const output = new Float32Array(count * 4);
+  const input = new Float32Array(3);
+  const triplet = new Float32Array(3);
+  bench('buffer (interleaved-rgb-to-oklch)', () => {
+    convertBuffer(rgb, output, 'rgb', 'oklch');
+  });
+  bench('buffer (rgba-rgb-to-oklch)', () => {
+    convertBuffer(rgba, output, 'rgb', 'oklch', { stride: 4 });
+  });
+  bench('buffer (planar-rgb-to-oklch)', () => {
+    convertBuffer(rgb, output, 'rgb', 'oklch', { layout: 'planar' });
+  });
+  bench('buffer (loop-rgb-to-oklch)', () => {
+    for (let i = 0; i < rgb.length; i += 3) {
+      input[0] = rgb[i];
+      input[1] = rgb[i + 1];
+      input[2] = rgb[i + 2];
+      convertColor(input, triplet, 'rgb', 'oklch');
+      output[i] = triplet[0];
+      output[i + 1] = triplet[1];
+      output[i + 2] = triplet[2];
+    }
+  });
+});
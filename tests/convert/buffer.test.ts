@@ -0,0 +1,144 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { convertBuffer } from '~/api/buffer';
+import { convertColor, getConverter } from '~/api/convert';
+import { createMockOutput } from '../factory';
+
+const PIXELS = [
+  [1, 0, 0],
+  [0.2, 0.4, 0.6],
+  [0, 0, 0],
+  [0.9, 0.8, 0.1],
+];
+
+function expectBitExact(
+  actual: Readonly<ArrayLike<number>>,
+  index: number,
+  gap: number,
+  pixel: Readonly<number[]>,
+): void {
+  const input = new Float32Array(pixel);
+  const output = createMockOutput();
+  convertColor(input, output, 'rgb', 'oklch');
+  expect(actual[index]).toBe(output[0]);
+  expect(actual[index + gap]).toBe(output[1]);
+  expect(actual[index + 2 * gap]).toBe(output[2]);
+}
+
+describe('convert-buffer', () => {
+  test('buffer (interleaved)', () => {
+    const input = new Float32Array(PIXELS.flat());
+    const output = new Float32Array(input.length);
+    convertBuffer(input, output, 'rgb', 'oklch');
+    for (let i = 0; i < PIXELS.length; i++) {
+      expectBitExact(output, i * 3, 1, PIXELS[i]);
+    }
+  });
+  test('buffer (interleaved-in-place)', () => {
+    const buffer = new Float32Array(PIXELS.flat());
+    convertBuffer(buffer, buffer, 'rgb', 'oklch');
+    for (let i = 0; i < PIXELS.length; i++) {
+      expectBitExact(buffer, i * 3, 1, PIXELS[i]);
+    }
+  });
+  test('buffer (rgba-stride)', () => {
+    const input = new Float32Array(PIXELS.flatMap((pixel, i) => [...pixel, i / 4]));
+    const output = new Float32Array(input.length);
+    convertBuffer(input, output, 'rgb', 'oklch', { stride: 4 });
+    for (let i = 0; i < PIXELS.length; i++) {
+      expectBitExact(output, i * 4, 1, PIXELS[i]);
+      expect(output[i * 4 + 3]).toBe(input[i * 4 + 3]);
+    }
+  });
+  test('buffer (offset-and-count)', () => {
+    const input = new Float32Array([9, ...PIXELS.flat()]);
+    const output = new Float32Array(input.length).fill(-1);
+    convertBuffer(input, output, 'rgb', 'oklch', { offset: 1, count: 2 });
+    expect(output[0]).toBe(-1);
+    expectBitExact(output, 1, 1, PIXELS[0]);
+    expectBitExact(output, 4, 1, PIXELS[1]);
+    expect(output[7]).toBe(-1);
+  });
+  test('buffer (planar)', () => {
+    const input = new Float32Array(PIXELS.length * 3);
+    for (let i = 0; i < PIXELS.length; i++) {
+      input[i] = PIXELS[i][0];
+      input[PIXELS.length + i] = PIXELS[i][1];
+      input[2 * PIXELS.length + i] = PIXELS[i][2];
+    }
+    const output = new Float32Array(input.length);
+    convertBuffer(input, output, 'rgb', 'oklch', { layout: 'planar' });
+    for (let i = 0; i < PIXELS.length; i++) {
+      expectBitExact(output, i, PIXELS.length, PIXELS[i]);
+    }
+  });
+  test('buffer (planar-alpha-plane)', () => {
+    const count = PIXELS.length;
+    const input = new Float32Array(count * 4).fill(0.5);
+    for (let i = 0; i < count; i++) {
+      input[i] = PIXELS[i][0];
+      input[count + i] = PIXELS[i][1];
+      input[2 * count + i] = PIXELS[i][2];
+    }
+    convertBuffer(input, input, 'rgb', 'oklch', { layout: 'planar', stride: count });
+    for (let i = 0; i < count; i++) {
+      expectBitExact(input, i, count, PIXELS[i]);
+      expect(input[3 * count + i]).toBe(0.5);
+    }
+  });
+  test('buffer (empty)', () => {
+    const output = new Float32Array(0);
+    convertBuffer(new Float32Array(0), output, 'rgb', 'oklch');
+    expect(output).toHaveLength(0);
+  });
+  test('buffer (too-small)', () => {
+    const input = new Float32Array(PIXELS.flat());
+    expect(() => {
+      convertBuffer(input, new Float32Array(6), 'rgb', 'oklch');
+    }).toThrow('buffer is too small');
+    expect(() => {
+      convertBuffer(input, input, 'rgb', 'oklch', { layout: 'planar', stride: 4, count: 5 });
+    }).toThrow('stride must be at least count');
+    expect(() => {
+      convertBuffer(input, input, 'rgb', 'oklch', { layout: 'planar', stride: 5 });
+    }).toThrow('buffer is too small');
+  });
+  test('buffer (invalid-stride)', () => {
+    const input = new Float32Array(PIXELS.flat());
+    expect(() => {
+      convertBuffer(input, input, 'rgb', 'oklch', { stride: 2 });
+    }).toThrow('stride must be at least 3');
+  });
+});
+
+describe('convert-buffer-missing', () => {
+  test('buffer (missing-channels)', () => {
+    const pixels = [
+      [0.7, 0.1, NaN],
+      [NaN, 0.2, 120],
+      [0.5, NaN, NaN],
+    ];
+    const input = new Float32Array(pixels.flat());
+    const planar = new Float32Array([0.7, NaN, 0.5, 0.1, 0.2, NaN, NaN, 120, NaN]);
+    const output = new Float32Array(input.length);
+    convertBuffer(input, output, 'oklch', 'rgb');
+    convertBuffer(planar, planar, 'oklch', 'rgb', { layout: 'planar' });
+
+    const expected = createMockOutput();
+    for (let i = 0; i < pixels.length; i++) {
+      convertColor(new Float32Array(pixels[i]), expected, 'oklch', 'rgb');
+      expect(expected.some((v) => Number.isNaN(v))).toBe(false);
+      expect(Array.from(output.subarray(i * 3, i * 3 + 3))).toEqual(Array.from(expected));
+      expect([planar[i], planar[i + 3], planar[i + 6]]).toEqual(Array.from(expected));
+    }
+  });
+  test('buffer (converter-missing)', () => {
+    const convert = getConverter('oklch', 'rgb');
+    const input = new Float32Array([0.5, NaN, NaN]);
+    const output = new Float32Array(3);
+    const expected = createMockOutput();
+    convert(input, output);
+    convertColor(input, expected, 'oklch', 'rgb');
+    expect(Array.from(output)).toEqual(Array.from(expected));
+    expect(output.some((v) => Number.isNaN(v))).toBe(false);
+  });
+});
@@ -0,0 +1,19 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor64 } from '~/api/convert';
+
+describe('convert-color-64', () => {
+  const input = new Float64Array([0.8, 0.3, 0.2]);
+  const output = new Float64Array(3);
+  bench('convert64 (rgb-to-lrgb)', () => {
+    convertColor64(input, output, 'rgb', 'lrgb');
+  });
+  bench('convert64 (rgb-to-lab)', () => {
+    convertColor64(input, output, 'rgb', 'lab');
+  });
+  bench('convert64 (rgb-to-oklch)', () => {
+    convertColor64(input, output, 'rgb', 'oklch');
+  });
+  bench('convert64 (p3-to-xyz50)', () => {
+    convertColor64(input, output, 'p3', 'xyz50');
+  });
+});
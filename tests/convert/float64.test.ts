@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { convertColor, convertColor64 } from '~/api/convert';
+import type { BuiltinSpace } from '~/lib/types';
+import { SPACES, expectColorCloseTo } from '../factory';
+
+const POLAR: ReadonlySet<BuiltinSpace> = new Set<BuiltinSpace>([
+  'hsl',
+  'hsv',
+  'hwb',
+  'lch',
+  'oklch',
+]);
+const SAMPLES = [
+  [0.8, 0.3, 0.2],
+  [0.1, 0.6, 0.9],
+  [0.45, 0.5, 0.12],
+];
+
+describe('convert-color-64', () => {
+  test('convert64 (exact-transfer)', () => {
+    const output = new Float64Array(3);
+    convertColor64(new Float64Array([0.5, 0.02, 1]), output, 'rgb', 'lrgb');
+    expect(output[0]).toBeCloseTo(Math.pow(0.555 / 1.055, 2.4), 15);
+    expect(output[1]).toBeCloseTo(0.02 / 12.92, 15);
+    expect(output[2]).toBeCloseTo(1, 15);
+  });
+  for (const from of SPACES.filter((space) => !POLAR.has(space))) {
+    test(`convert64 (${from}-round-trip)`, () => {
+      const input = new Float64Array(3);
+      const mid = new Float64Array(3);
+      const back = new Float64Array(3);
+      for (const sample of SAMPLES) {
+        convertColor64(new Float64Array(sample), input, 'rgb', from);
+        for (const to of SPACES) {
+          convertColor64(input, mid, from, to);
+          convertColor64(mid, back, to, from);
+          for (let i = 0; i < 3; i++) {
+            expect(back[i]).toBeCloseTo(input[i], 10);
+          }
+        }
+      }
+    });
+  }
+  for (const from of SPACES) {
+    test(`convert64 (${from}-agrees-with-float32)`, () => {
+      const input = new Float64Array(3);
+      const output = new Float64Array(3);
+      const output32 = new Float32Array(3);
+      convertColor64(new Float64Array(SAMPLES[0]), input, 'rgb', from);
+      for (const to of SPACES) {
+        convertColor64(input, output, from, to);
+        convertColor(new Float32Array(input), output32, from, to);
+        expectColorCloseTo(output32, Array.from(output), 1);
+      }
+    });
+  }
+});
@@ -0,0 +1,31 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { fuse } from '~/api/fuse';
+import { xyz65ToXyz50 } from '~/lib/chroma';
+import { lrgbToLab, xyz50ToLab } from '~/lib/cielab';
+import { lrgbToXyz65, rgbToLrgb } from '~/lib/linear';
+import { lp3ToLrgb } from '~/lib/wide';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('fuse-steps', () => {
+  bench('fuse (rgb-to-lab)', () => {
+    fuse([rgbToLrgb, lrgbToXyz65, xyz65ToXyz50, xyz50ToLab]);
+  });
+  bench('fuse (lp3-to-lab)', () => {
+    fuse([lp3ToLrgb, lrgbToLab]);
+  });
+  bench('fuse (precise)', () => {
+    fuse([rgbToLrgb, lrgbToXyz65, xyz65ToXyz50], true);
+  });
+});
+
+describe('fused-conversion', () => {
+  const input = createMockArray([0.8, 0.3, 0.2]);
+  const output = createMockOutput();
+  bench('fused (p3-to-lab)', () => {
+    convertColor(input, output, 'p3', 'lab');
+  });
+  bench('fused (rgb-to-xyz50)', () => {
+    convertColor(input, output, 'rgb', 'xyz50');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { convertColor, explainConversion, getConversionPath } from '~/api/convert';
+import { fuse } from '~/api/fuse';
+import { xyz65ToXyz50 } from '~/lib/chroma';
+import { lrgbToLab, xyz50ToLab } from '~/lib/cielab';
+import { lrgbToXyz65, rgbToLrgb, rgbToLrgbExact } from '~/lib/linear';
+import { lp3ToLrgb } from '~/lib/wide';
+import { SPACES, createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
+
+describe('fuse-linear-hops', () => {
+  const source = createMockArray([0.8, 0.3, 0.2]);
+  for (const from of SPACES) {
+    const input = createMockOutput();
+    convertColor(source, input, 'rgb', from);
+    test(`fuse (${from}-matches-steps)`, () => {
+      const output = createMockOutput();
+      for (const to of SPACES) {
+        convertColor(input, output, from, to);
+        const values = explainConversion(input, from, to);
+        const last = getConversionPath(from, to).length - 1;
+        expectColorCloseTo(values[last], Array.from(output), 2);
+      }
+    });
+  }
+  test('fuse (chained-matrices)', () => {
+    expect(getConversionPath('p3', 'lab')).toEqual(['p3', 'lp3', 'lrgb', 'lab']);
+    const output = createMockOutput();
+    convertColor(createMockArray([1, 0, 0]), output, 'p3', 'lab');
+    expectColorCloseTo(output, [0.562, 94.473, 98.889], 2);
+  });
+});
+
+describe('fuse-structure', () => {
+  test('fuse (merges-adjacent-matrices)', () => {
+    const steps = fuse([rgbToLrgb, lrgbToXyz65, xyz65ToXyz50, xyz50ToLab]);
+    expect(steps).toHaveLength(3);
+    expect(steps[0]).toBe(rgbToLrgb);
+    expect(steps[1]).not.toBe(lrgbToXyz65);
+    expect(steps[2]).toBe(xyz50ToLab);
+
+    const input = createMockArray([0.2, 0.4, 0.6]);
+    const fused = createMockOutput();
+    const chained = createMockOutput();
+    steps[1](input, fused);
+    lrgbToXyz65(input, chained);
+    xyz65ToXyz50(chained, chained);
+    expectColorCloseTo(fused, Array.from(chained), 5);
+  });
+  test('fuse (rgb-to-xyz65)', () => {
+    expect(fuse([rgbToLrgb, lrgbToXyz65])).toEqual([rgbToLrgb, lrgbToXyz65]);
+    expect(fuse([lrgbToXyz65, xyz65ToXyz50])).toHaveLength(1);
+  });
+  test('fuse (splits-into-matrix)', () => {
+    const steps = fuse([lp3ToLrgb, lrgbToLab]);
+    expect(steps).toHaveLength(2);
+    expect(steps[0]).not.toBe(lp3ToLrgb);
+    expect(steps[1]).toBe(xyz50ToLab);
+    expect(fuse([rgbToLrgb, lrgbToLab])).toEqual([rgbToLrgb, lrgbToLab]);
+  });
+  test('fuse (precise-exact-steps)', () => {
+    expect(fuse([rgbToLrgb], true)).toEqual([rgbToLrgbExact]);
+    expect(fuse([rgbToLrgb, lrgbToXyz65], true)).toHaveLength(2);
+  });
+});
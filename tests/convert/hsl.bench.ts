@@ -35,4 +35,28 @@ describe('convert-color-hsl', () => {
   bench('convert (hsl-to-xyz65)', () => {
     convertColor(input, output, 'hsl', 'xyz65');
   });
+  bench('convert (hsl-to-p3)', () => {
+    convertColor(input, output, 'hsl', 'p3');
+  });
+  bench('convert (hsl-to-lp3)', () => {
+    convertColor(input, output, 'hsl', 'lp3');
+  });
+  bench('convert (hsl-to-rec2020)', () => {
+    convertColor(input, output, 'hsl', 'rec2020');
+  });
+  bench('convert (hsl-to-lrec2020)', () => {
+    convertColor(input, output, 'hsl', 'lrec2020');
+  });
+  bench('convert (hsl-to-a98)', () => {
+    convertColor(input, output, 'hsl', 'a98');
+  });
+  bench('convert (hsl-to-la98)', () => {
+    convertColor(input, output, 'hsl', 'la98');
+  });
+  bench('convert (hsl-to-prophoto)', () => {
+    convertColor(input, output, 'hsl', 'prophoto');
+  });
+  bench('convert (hsl-to-lprophoto)', () => {
+    convertColor(input, output, 'hsl', 'lprophoto');
+  });
 });
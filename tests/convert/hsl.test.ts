@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -27,7 +27,8 @@ describe('convert-color-hsl', () => {
   test('convert (hsl-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'hsl', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (hsl-to-oklab)', () => {
     const output = createMockOutput();
@@ -37,7 +38,8 @@ describe('convert-color-hsl', () => {
   test('convert (hsl-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'hsl', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (hsl-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-hsl', () => {
     convertColor(input, output, 'hsl', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (hsl-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsl-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsl-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsl-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsl-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsl-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsl-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsl-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
@@ -35,4 +35,28 @@ describe('convert-color-hsv', () => {
   bench('convert (hsv-to-xyz65)', () => {
     convertColor(input, output, 'hsv', 'xyz65');
   });
+  bench('convert (hsv-to-p3)', () => {
+    convertColor(input, output, 'hsv', 'p3');
+  });
+  bench('convert (hsv-to-lp3)', () => {
+    convertColor(input, output, 'hsv', 'lp3');
+  });
+  bench('convert (hsv-to-rec2020)', () => {
+    convertColor(input, output, 'hsv', 'rec2020');
+  });
+  bench('convert (hsv-to-lrec2020)', () => {
+    convertColor(input, output, 'hsv', 'lrec2020');
+  });
+  bench('convert (hsv-to-a98)', () => {
+    convertColor(input, output, 'hsv', 'a98');
+  });
+  bench('convert (hsv-to-la98)', () => {
+    convertColor(input, output, 'hsv', 'la98');
+  });
+  bench('convert (hsv-to-prophoto)', () => {
+    convertColor(input, output, 'hsv', 'prophoto');
+  });
+  bench('convert (hsv-to-lprophoto)', () => {
+    convertColor(input, output, 'hsv', 'lprophoto');
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -27,7 +27,8 @@ describe('convert-color-hsv', () => {
   test('convert (hsv-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'hsv', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (hsv-to-oklab)', () => {
     const output = createMockOutput();
@@ -37,7 +38,8 @@ describe('convert-color-hsv', () => {
   test('convert (hsv-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'hsv', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (hsv-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-hsv', () => {
     convertColor(input, output, 'hsv', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (hsv-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsv', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsv-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsv', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsv-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsv', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsv-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsv', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsv-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsv', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsv-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsv', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsv-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsv', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hsv-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hsv', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
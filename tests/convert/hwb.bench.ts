@@ -35,4 +35,28 @@ describe('convert-color-hwb', () => {
   bench('convert (hwb-to-xyz65)', () => {
     convertColor(input, output, 'hwb', 'xyz65');
   });
+  bench('convert (hwb-to-p3)', () => {
+    convertColor(input, output, 'hwb', 'p3');
+  });
+  bench('convert (hwb-to-lp3)', () => {
+    convertColor(input, output, 'hwb', 'lp3');
+  });
+  bench('convert (hwb-to-rec2020)', () => {
+    convertColor(input, output, 'hwb', 'rec2020');
+  });
+  bench('convert (hwb-to-lrec2020)', () => {
+    convertColor(input, output, 'hwb', 'lrec2020');
+  });
+  bench('convert (hwb-to-a98)', () => {
+    convertColor(input, output, 'hwb', 'a98');
+  });
+  bench('convert (hwb-to-la98)', () => {
+    convertColor(input, output, 'hwb', 'la98');
+  });
+  bench('convert (hwb-to-prophoto)', () => {
+    convertColor(input, output, 'hwb', 'prophoto');
+  });
+  bench('convert (hwb-to-lprophoto)', () => {
+    convertColor(input, output, 'hwb', 'lprophoto');
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -27,7 +27,8 @@ describe('convert-color-hwb', () => {
   test('convert (hwb-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'hwb', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (hwb-to-oklab)', () => {
     const output = createMockOutput();
@@ -37,7 +38,8 @@ describe('convert-color-hwb', () => {
   test('convert (hwb-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'hwb', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (hwb-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-hwb', () => {
     convertColor(input, output, 'hwb', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (hwb-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hwb', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hwb-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hwb', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hwb-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hwb', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hwb-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hwb', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hwb-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hwb', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hwb-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hwb', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hwb-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hwb', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (hwb-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'hwb', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
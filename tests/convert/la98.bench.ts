@@ -0,0 +1,62 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('convert-color-la98', () => {
+  const input = createMockArray([1, 0, 0]);
+  const output = createMockOutput();
+  bench('convert (la98-to-rgb)', () => {
+    convertColor(input, output, 'la98', 'rgb');
+  });
+  bench('convert (la98-to-hsl)', () => {
+    convertColor(input, output, 'la98', 'hsl');
+  });
+  bench('convert (la98-to-hsv)', () => {
+    convertColor(input, output, 'la98', 'hsv');
+  });
+  bench('convert (la98-to-hwb)', () => {
+    convertColor(input, output, 'la98', 'hwb');
+  });
+  bench('convert (la98-to-lab)', () => {
+    convertColor(input, output, 'la98', 'lab');
+  });
+  bench('convert (la98-to-lch)', () => {
+    convertColor(input, output, 'la98', 'lch');
+  });
+  bench('convert (la98-to-oklab)', () => {
+    convertColor(input, output, 'la98', 'oklab');
+  });
+  bench('convert (la98-to-oklch)', () => {
+    convertColor(input, output, 'la98', 'oklch');
+  });
+  bench('convert (la98-to-lrgb)', () => {
+    convertColor(input, output, 'la98', 'lrgb');
+  });
+  bench('convert (la98-to-xyz50)', () => {
+    convertColor(input, output, 'la98', 'xyz50');
+  });
+  bench('convert (la98-to-xyz65)', () => {
+    convertColor(input, output, 'la98', 'xyz65');
+  });
+  bench('convert (la98-to-p3)', () => {
+    convertColor(input, output, 'la98', 'p3');
+  });
+  bench('convert (la98-to-lp3)', () => {
+    convertColor(input, output, 'la98', 'lp3');
+  });
+  bench('convert (la98-to-rec2020)', () => {
+    convertColor(input, output, 'la98', 'rec2020');
+  });
+  bench('convert (la98-to-lrec2020)', () => {
+    convertColor(input, output, 'la98', 'lrec2020');
+  });
+  bench('convert (la98-to-a98)', () => {
+    convertColor(input, output, 'la98', 'a98');
+  });
+  bench('convert (la98-to-prophoto)', () => {
+    convertColor(input, output, 'la98', 'prophoto');
+  });
+  bench('convert (la98-to-lprophoto)', () => {
+    convertColor(input, output, 'la98', 'lprophoto');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
+
+describe('convert-color-la98', () => {
+  const input = createMockArray([1, 0, 0]);
+  test('convert (la98-to-rgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'rgb');
+    expectColorCloseTo(output, [1.1582, 0, 0]);
+  });
+  test('convert (la98-to-hsl)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'hsl');
+    expectColorCloseTo(output, [0, 1.3757, 0.5791]);
+  });
+  test('convert (la98-to-hsv)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'hsv');
+    expectColorCloseTo(output, [0, 1, 1.1582]);
+  });
+  test('convert (la98-to-hwb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'hwb');
+    expectColorCloseTo(output, [0, 0, -0.1582]);
+  });
+  test('convert (la98-to-lab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'lab');
+    expectColorCloseTo(output, [0.626, 90.367, 78.1477]);
+  });
+  test('convert (la98-to-lch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'lch');
+    expectColorCloseTo(output, [0.626, 119.4707, 40.8526]);
+  });
+  test('convert (la98-to-oklab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'oklab');
+    expectColorCloseTo(output, [0.7022, 0.2514, 0.1407]);
+  });
+  test('convert (la98-to-oklch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'oklch');
+    expectColorCloseTo(output, [0.7022, 0.2881, 29.2271]);
+  });
+  test('convert (la98-to-lrgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'lrgb');
+    expectColorCloseTo(output, [1.3983, 0, 0]);
+  });
+  test('convert (la98-to-xyz50)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'xyz50');
+    expectColorCloseTo(output, [0.6098, 0.3111, 0.0195]);
+  });
+  test('convert (la98-to-xyz65)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'xyz65');
+    expectColorCloseTo(output, [0.5767, 0.2974, 0.027]);
+  });
+  test('convert (la98-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'p3');
+    expectColorCloseTo(output, [1.0633, 0.2386, 0.1676]);
+  });
+  test('convert (la98-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'lp3');
+    expectColorCloseTo(output, [1.1501, 0.0464, 0.0239]);
+  });
+  test('convert (la98-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'rec2020');
+    expectColorCloseTo(output, [0.9371, 0.2848, 0.1017]);
+  });
+  test('convert (la98-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'lrec2020');
+    expectColorCloseTo(output, [0.8774, 0.0966, 0.0229]);
+  });
+  test('convert (la98-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'a98');
+    expectColorCloseTo(output, [1, 0, 0]);
+  });
+  test('convert (la98-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'prophoto');
+    expectColorCloseTo(output, [0.8461, 0.3322, 0.1248]);
+  });
+  test('convert (la98-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'la98', 'lprophoto');
+    expectColorCloseTo(output, [0.7402, 0.1376, 0.0236]);
+  });
+});
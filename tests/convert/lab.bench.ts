@@ -35,4 +35,28 @@ describe('convert-color-lab', () => {
   bench('convert (lab-to-xyz65)', () => {
     convertColor(input, output, 'lab', 'xyz65');
   });
+  bench('convert (lab-to-p3)', () => {
+    convertColor(input, output, 'lab', 'p3');
+  });
+  bench('convert (lab-to-lp3)', () => {
+    convertColor(input, output, 'lab', 'lp3');
+  });
+  bench('convert (lab-to-rec2020)', () => {
+    convertColor(input, output, 'lab', 'rec2020');
+  });
+  bench('convert (lab-to-lrec2020)', () => {
+    convertColor(input, output, 'lab', 'lrec2020');
+  });
+  bench('convert (lab-to-a98)', () => {
+    convertColor(input, output, 'lab', 'a98');
+  });
+  bench('convert (lab-to-la98)', () => {
+    convertColor(input, output, 'lab', 'la98');
+  });
+  bench('convert (lab-to-prophoto)', () => {
+    convertColor(input, output, 'lab', 'prophoto');
+  });
+  bench('convert (lab-to-lprophoto)', () => {
+    convertColor(input, output, 'lab', 'lprophoto');
+  });
 });
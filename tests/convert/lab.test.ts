@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -27,7 +27,8 @@ describe('convert-color-lab', () => {
   test('convert (lab-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'lab', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (lab-to-oklab)', () => {
     const output = createMockOutput();
@@ -37,7 +38,8 @@ describe('convert-color-lab', () => {
   test('convert (lab-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'lab', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (lab-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-lab', () => {
     convertColor(input, output, 'lab', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (lab-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lab', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lab-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lab', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lab-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lab', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lab-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lab', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lab-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lab', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lab-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lab', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lab-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lab', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lab-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lab', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
@@ -35,4 +35,28 @@ describe('convert-color-lch', () => {
   bench('convert (lch-to-xyz65)', () => {
     convertColor(input, output, 'lch', 'xyz65');
   });
+  bench('convert (lch-to-p3)', () => {
+    convertColor(input, output, 'lch', 'p3');
+  });
+  bench('convert (lch-to-lp3)', () => {
+    convertColor(input, output, 'lch', 'lp3');
+  });
+  bench('convert (lch-to-rec2020)', () => {
+    convertColor(input, output, 'lch', 'rec2020');
+  });
+  bench('convert (lch-to-lrec2020)', () => {
+    convertColor(input, output, 'lch', 'lrec2020');
+  });
+  bench('convert (lch-to-a98)', () => {
+    convertColor(input, output, 'lch', 'a98');
+  });
+  bench('convert (lch-to-la98)', () => {
+    convertColor(input, output, 'lch', 'la98');
+  });
+  bench('convert (lch-to-prophoto)', () => {
+    convertColor(input, output, 'lch', 'prophoto');
+  });
+  bench('convert (lch-to-lprophoto)', () => {
+    convertColor(input, output, 'lch', 'lprophoto');
+  });
 });
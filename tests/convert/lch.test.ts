@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -37,7 +37,8 @@ describe('convert-color-lch', () => {
   test('convert (lch-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'lch', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (lch-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +55,44 @@ describe('convert-color-lch', () => {
     convertColor(input, output, 'lch', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (lch-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lch', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lch-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lch', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lch-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lch', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lch-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lch', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lch-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lch', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lch-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lch', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lch-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lch', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lch-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lch', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
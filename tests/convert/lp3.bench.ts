@@ -0,0 +1,62 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('convert-color-lp3', () => {
+  const input = createMockArray([1, 0, 0]);
+  const output = createMockOutput();
+  bench('convert (lp3-to-rgb)', () => {
+    convertColor(input, output, 'lp3', 'rgb');
+  });
+  bench('convert (lp3-to-hsl)', () => {
+    convertColor(input, output, 'lp3', 'hsl');
+  });
+  bench('convert (lp3-to-hsv)', () => {
+    convertColor(input, output, 'lp3', 'hsv');
+  });
+  bench('convert (lp3-to-hwb)', () => {
+    convertColor(input, output, 'lp3', 'hwb');
+  });
+  bench('convert (lp3-to-lab)', () => {
+    convertColor(input, output, 'lp3', 'lab');
+  });
+  bench('convert (lp3-to-lch)', () => {
+    convertColor(input, output, 'lp3', 'lch');
+  });
+  bench('convert (lp3-to-oklab)', () => {
+    convertColor(input, output, 'lp3', 'oklab');
+  });
+  bench('convert (lp3-to-oklch)', () => {
+    convertColor(input, output, 'lp3', 'oklch');
+  });
+  bench('convert (lp3-to-lrgb)', () => {
+    convertColor(input, output, 'lp3', 'lrgb');
+  });
+  bench('convert (lp3-to-xyz50)', () => {
+    convertColor(input, output, 'lp3', 'xyz50');
+  });
+  bench('convert (lp3-to-xyz65)', () => {
+    convertColor(input, output, 'lp3', 'xyz65');
+  });
+  bench('convert (lp3-to-p3)', () => {
+    convertColor(input, output, 'lp3', 'p3');
+  });
+  bench('convert (lp3-to-rec2020)', () => {
+    convertColor(input, output, 'lp3', 'rec2020');
+  });
+  bench('convert (lp3-to-lrec2020)', () => {
+    convertColor(input, output, 'lp3', 'lrec2020');
+  });
+  bench('convert (lp3-to-a98)', () => {
+    convertColor(input, output, 'lp3', 'a98');
+  });
+  bench('convert (lp3-to-la98)', () => {
+    convertColor(input, output, 'lp3', 'la98');
+  });
+  bench('convert (lp3-to-prophoto)', () => {
+    convertColor(input, output, 'lp3', 'prophoto');
+  });
+  bench('convert (lp3-to-lprophoto)', () => {
+    convertColor(input, output, 'lp3', 'lprophoto');
+  });
+});
@@ -0,0 +1,62 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('convert-color-lprophoto', () => {
+  const input = createMockArray([1, 0, 0]);
+  const output = createMockOutput();
+  bench('convert (lprophoto-to-rgb)', () => {
+    convertColor(input, output, 'lprophoto', 'rgb');
+  });
+  bench('convert (lprophoto-to-hsl)', () => {
+    convertColor(input, output, 'lprophoto', 'hsl');
+  });
+  bench('convert (lprophoto-to-hsv)', () => {
+    convertColor(input, output, 'lprophoto', 'hsv');
+  });
+  bench('convert (lprophoto-to-hwb)', () => {
+    convertColor(input, output, 'lprophoto', 'hwb');
+  });
+  bench('convert (lprophoto-to-lab)', () => {
+    convertColor(input, output, 'lprophoto', 'lab');
+  });
+  bench('convert (lprophoto-to-lch)', () => {
+    convertColor(input, output, 'lprophoto', 'lch');
+  });
+  bench('convert (lprophoto-to-oklab)', () => {
+    convertColor(input, output, 'lprophoto', 'oklab');
+  });
+  bench('convert (lprophoto-to-oklch)', () => {
+    convertColor(input, output, 'lprophoto', 'oklch');
+  });
+  bench('convert (lprophoto-to-lrgb)', () => {
+    convertColor(input, output, 'lprophoto', 'lrgb');
+  });
+  bench('convert (lprophoto-to-xyz50)', () => {
+    convertColor(input, output, 'lprophoto', 'xyz50');
+  });
+  bench('convert (lprophoto-to-xyz65)', () => {
+    convertColor(input, output, 'lprophoto', 'xyz65');
+  });
+  bench('convert (lprophoto-to-p3)', () => {
+    convertColor(input, output, 'lprophoto', 'p3');
+  });
+  bench('convert (lprophoto-to-lp3)', () => {
+    convertColor(input, output, 'lprophoto', 'lp3');
+  });
+  bench('convert (lprophoto-to-rec2020)', () => {
+    convertColor(input, output, 'lprophoto', 'rec2020');
+  });
+  bench('convert (lprophoto-to-lrec2020)', () => {
+    convertColor(input, output, 'lprophoto', 'lrec2020');
+  });
+  bench('convert (lprophoto-to-a98)', () => {
+    convertColor(input, output, 'lprophoto', 'a98');
+  });
+  bench('convert (lprophoto-to-la98)', () => {
+    convertColor(input, output, 'lprophoto', 'la98');
+  });
+  bench('convert (lprophoto-to-prophoto)', () => {
+    convertColor(input, output, 'lprophoto', 'prophoto');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
+
+describe('convert-color-lprophoto', () => {
+  const input = createMockArray([1, 0, 0]);
+  test('convert (lprophoto-to-rgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'rgb');
+    expectColorCloseTo(output, [1.3632, -2.9563, -0.1107]);
+  });
+  test('convert (lprophoto-to-hsl)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'hsl');
+    expectColorCloseTo(output, [320.4739, 2.7114, -0.7965]);
+  });
+  test('convert (lprophoto-to-hsv)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'hsv');
+    expectColorCloseTo(output, [320.4739, 3.1686, 1.3632]);
+  });
+  test('convert (lprophoto-to-hwb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'hwb');
+    expectColorCloseTo(output, [320.4739, -2.9563, -0.3632]);
+  });
+  test('convert (lprophoto-to-lab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'lab');
+    expectColorCloseTo(output, [0.6061, 139.1667, 104.4976]);
+  });
+  test('convert (lprophoto-to-lch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'lch');
+    expectColorCloseTo(output, [0.6061, 174.0319, 36.9022]);
+  });
+  test('convert (lprophoto-to-oklab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'oklab');
+    expectColorCloseTo(output, [0.702, 0.4066, 0.1446]);
+  });
+  test('convert (lprophoto-to-oklch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'oklch');
+    expectColorCloseTo(output, [0.702, 0.4316, 19.5726]);
+  });
+  test('convert (lprophoto-to-lrgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'lrgb');
+    expectColorCloseTo(output, [2.0341, -0.2288, -0.0086]);
+  });
+  test('convert (lprophoto-to-xyz50)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'xyz50');
+    expectColorCloseTo(output, [0.7977, 0.288, 0]);
+  });
+  test('convert (lprophoto-to-xyz65)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'xyz65');
+    expectColorCloseTo(output, [0.7556, 0.2683, 0.0039]);
+  });
+  test('convert (lprophoto-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'p3');
+    expectColorCloseTo(output, [1.239, -1.9856, 0.1023]);
+  });
+  test('convert (lprophoto-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'lp3');
+    expectColorCloseTo(output, [1.6324, -0.1537, 0.0104]);
+  });
+  test('convert (lprophoto-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'rec2020');
+    expectColorCloseTo(output, [1.0943, -0.2327, 0.0249]);
+  });
+  test('convert (lprophoto-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'lrec2020');
+    expectColorCloseTo(output, [1.2006, -0.0699, 0.0055]);
+  });
+  test('convert (lprophoto-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'a98');
+    expectColorCloseTo(output, [1.1614, -0.5114, -0.1595]);
+  });
+  test('convert (lprophoto-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'la98');
+    expectColorCloseTo(output, [1.3895, -0.2288, -0.0176]);
+  });
+  test('convert (lprophoto-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lprophoto', 'prophoto');
+    expectColorCloseTo(output, [1, 0, 0]);
+  });
+});
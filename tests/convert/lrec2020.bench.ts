@@ -0,0 +1,62 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('convert-color-lrec2020', () => {
+  const input = createMockArray([1, 0, 0]);
+  const output = createMockOutput();
+  bench('convert (lrec2020-to-rgb)', () => {
+    convertColor(input, output, 'lrec2020', 'rgb');
+  });
+  bench('convert (lrec2020-to-hsl)', () => {
+    convertColor(input, output, 'lrec2020', 'hsl');
+  });
+  bench('convert (lrec2020-to-hsv)', () => {
+    convertColor(input, output, 'lrec2020', 'hsv');
+  });
+  bench('convert (lrec2020-to-hwb)', () => {
+    convertColor(input, output, 'lrec2020', 'hwb');
+  });
+  bench('convert (lrec2020-to-lab)', () => {
+    convertColor(input, output, 'lrec2020', 'lab');
+  });
+  bench('convert (lrec2020-to-lch)', () => {
+    convertColor(input, output, 'lrec2020', 'lch');
+  });
+  bench('convert (lrec2020-to-oklab)', () => {
+    convertColor(input, output, 'lrec2020', 'oklab');
+  });
+  bench('convert (lrec2020-to-oklch)', () => {
+    convertColor(input, output, 'lrec2020', 'oklch');
+  });
+  bench('convert (lrec2020-to-lrgb)', () => {
+    convertColor(input, output, 'lrec2020', 'lrgb');
+  });
+  bench('convert (lrec2020-to-xyz50)', () => {
+    convertColor(input, output, 'lrec2020', 'xyz50');
+  });
+  bench('convert (lrec2020-to-xyz65)', () => {
+    convertColor(input, output, 'lrec2020', 'xyz65');
+  });
+  bench('convert (lrec2020-to-p3)', () => {
+    convertColor(input, output, 'lrec2020', 'p3');
+  });
+  bench('convert (lrec2020-to-lp3)', () => {
+    convertColor(input, output, 'lrec2020', 'lp3');
+  });
+  bench('convert (lrec2020-to-rec2020)', () => {
+    convertColor(input, output, 'lrec2020', 'rec2020');
+  });
+  bench('convert (lrec2020-to-a98)', () => {
+    convertColor(input, output, 'lrec2020', 'a98');
+  });
+  bench('convert (lrec2020-to-la98)', () => {
+    convertColor(input, output, 'lrec2020', 'la98');
+  });
+  bench('convert (lrec2020-to-prophoto)', () => {
+    convertColor(input, output, 'lrec2020', 'prophoto');
+  });
+  bench('convert (lrec2020-to-lprophoto)', () => {
+    convertColor(input, output, 'lrec2020', 'lprophoto');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
+
+describe('convert-color-lrec2020', () => {
+  const input = createMockArray([1, 0, 0]);
+  test('convert (lrec2020-to-rgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'rgb');
+    expectColorCloseTo(output, [1.2482, -1.6094, -0.2346]);
+  });
+  test('convert (lrec2020-to-hsl)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'hsl');
+    expectColorCloseTo(output, [331.1337, 7.9116, -0.1806]);
+  });
+  test('convert (lrec2020-to-hsv)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'hsv');
+    expectColorCloseTo(output, [331.1337, 2.2894, 1.2482]);
+  });
+  test('convert (lrec2020-to-hwb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'hwb');
+    expectColorCloseTo(output, [331.1337, -1.6094, -0.2482]);
+  });
+  test('convert (lrec2020-to-lab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'lab');
+    expectColorCloseTo(output, [0.598, 116.8958, 106.7496]);
+  });
+  test('convert (lrec2020-to-lch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'lch');
+    expectColorCloseTo(output, [0.598, 158.3039, 42.4024]);
+  });
+  test('convert (lrec2020-to-oklab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'oklab');
+    expectColorCloseTo(output, [0.6871, 0.3327, 0.1494]);
+  });
+  test('convert (lrec2020-to-oklch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'oklch');
+    expectColorCloseTo(output, [0.6871, 0.3647, 24.1808]);
+  });
+  test('convert (lrec2020-to-lrgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'lrgb');
+    expectColorCloseTo(output, [1.6604, -0.1246, -0.0182]);
+  });
+  test('convert (lrec2020-to-xyz50)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'xyz50');
+    expectColorCloseTo(output, [0.6735, 0.279, -0.0019]);
+  });
+  test('convert (lrec2020-to-xyz65)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'xyz65');
+    expectColorCloseTo(output, [0.637, 0.2627, 0]);
+  });
+  test('convert (lrec2020-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'p3');
+    expectColorCloseTo(output, [1.1381, -0.8437, 0.0365]);
+  });
+  test('convert (lrec2020-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'lp3');
+    expectColorCloseTo(output, [1.3435, -0.0653, 0.0028]);
+  });
+  test('convert (lrec2020-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'rec2020');
+    expectColorCloseTo(output, [1, 0, 0]);
+  });
+  test('convert (lrec2020-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'a98');
+    expectColorCloseTo(output, [1.0664, -0.3879, -0.1783]);
+  });
+  test('convert (lrec2020-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'la98');
+    expectColorCloseTo(output, [1.1519, -0.1246, -0.0225]);
+  });
+  test('convert (lrec2020-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'prophoto');
+    expectColorCloseTo(output, [0.9048, 0.1976, -0.0345]);
+  });
+  test('convert (lrec2020-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrec2020', 'lprophoto');
+    expectColorCloseTo(output, [0.8352, 0.054, -0.0023]);
+  });
+});
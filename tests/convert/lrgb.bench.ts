@@ -35,4 +35,28 @@ describe('convert-color-lrgb', () => {
   bench('convert (lrgb-to-xyz65)', () => {
     convertColor(input, output, 'lrgb', 'xyz65');
   });
+  bench('convert (lrgb-to-p3)', () => {
+    convertColor(input, output, 'lrgb', 'p3');
+  });
+  bench('convert (lrgb-to-lp3)', () => {
+    convertColor(input, output, 'lrgb', 'lp3');
+  });
+  bench('convert (lrgb-to-rec2020)', () => {
+    convertColor(input, output, 'lrgb', 'rec2020');
+  });
+  bench('convert (lrgb-to-lrec2020)', () => {
+    convertColor(input, output, 'lrgb', 'lrec2020');
+  });
+  bench('convert (lrgb-to-a98)', () => {
+    convertColor(input, output, 'lrgb', 'a98');
+  });
+  bench('convert (lrgb-to-la98)', () => {
+    convertColor(input, output, 'lrgb', 'la98');
+  });
+  bench('convert (lrgb-to-prophoto)', () => {
+    convertColor(input, output, 'lrgb', 'prophoto');
+  });
+  bench('convert (lrgb-to-lprophoto)', () => {
+    convertColor(input, output, 'lrgb', 'lprophoto');
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -32,7 +32,8 @@ describe('convert-color-lrgb', () => {
   test('convert (lrgb-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'lrgb', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (lrgb-to-oklab)', () => {
     const output = createMockOutput();
@@ -42,7 +43,8 @@ describe('convert-color-lrgb', () => {
   test('convert (lrgb-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'lrgb', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (lrgb-to-xyz50)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-lrgb', () => {
     convertColor(input, output, 'lrgb', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (lrgb-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrgb', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lrgb-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrgb', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lrgb-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrgb', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lrgb-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrgb', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lrgb-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrgb', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lrgb-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrgb', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lrgb-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrgb', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (lrgb-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'lrgb', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
@@ -35,4 +35,28 @@ describe('convert-color-oklab', () => {
   bench('convert (oklab-to-xyz65)', () => {
     convertColor(input, output, 'oklab', 'xyz65');
   });
+  bench('convert (oklab-to-p3)', () => {
+    convertColor(input, output, 'oklab', 'p3');
+  });
+  bench('convert (oklab-to-lp3)', () => {
+    convertColor(input, output, 'oklab', 'lp3');
+  });
+  bench('convert (oklab-to-rec2020)', () => {
+    convertColor(input, output, 'oklab', 'rec2020');
+  });
+  bench('convert (oklab-to-lrec2020)', () => {
+    convertColor(input, output, 'oklab', 'lrec2020');
+  });
+  bench('convert (oklab-to-a98)', () => {
+    convertColor(input, output, 'oklab', 'a98');
+  });
+  bench('convert (oklab-to-la98)', () => {
+    convertColor(input, output, 'oklab', 'la98');
+  });
+  bench('convert (oklab-to-prophoto)', () => {
+    convertColor(input, output, 'oklab', 'prophoto');
+  });
+  bench('convert (oklab-to-lprophoto)', () => {
+    convertColor(input, output, 'oklab', 'lprophoto');
+  });
 });
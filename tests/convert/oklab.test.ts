@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -32,12 +32,14 @@ describe('convert-color-oklab', () => {
   test('convert (oklab-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'oklab', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (oklab-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'oklab', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (oklab-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-oklab', () => {
     convertColor(input, output, 'oklab', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (oklab-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklab', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklab-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklab', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklab-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklab', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklab-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklab', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklab-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklab', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklab-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklab', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklab-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklab', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklab-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklab', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
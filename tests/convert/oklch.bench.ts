@@ -35,4 +35,28 @@ describe('convert-color-oklch', () => {
   bench('convert (oklch-to-xyz65)', () => {
     convertColor(input, output, 'oklch', 'xyz65');
   });
+  bench('convert (oklch-to-p3)', () => {
+    convertColor(input, output, 'oklch', 'p3');
+  });
+  bench('convert (oklch-to-lp3)', () => {
+    convertColor(input, output, 'oklch', 'lp3');
+  });
+  bench('convert (oklch-to-rec2020)', () => {
+    convertColor(input, output, 'oklch', 'rec2020');
+  });
+  bench('convert (oklch-to-lrec2020)', () => {
+    convertColor(input, output, 'oklch', 'lrec2020');
+  });
+  bench('convert (oklch-to-a98)', () => {
+    convertColor(input, output, 'oklch', 'a98');
+  });
+  bench('convert (oklch-to-la98)', () => {
+    convertColor(input, output, 'oklch', 'la98');
+  });
+  bench('convert (oklch-to-prophoto)', () => {
+    convertColor(input, output, 'oklch', 'prophoto');
+  });
+  bench('convert (oklch-to-lprophoto)', () => {
+    convertColor(input, output, 'oklch', 'lprophoto');
+  });
 });
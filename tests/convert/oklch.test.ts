@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -32,7 +32,8 @@ describe('convert-color-oklch', () => {
   test('convert (oklch-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'oklch', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (oklch-to-oklab)', () => {
     const output = createMockOutput();
@@ -54,4 +55,44 @@ describe('convert-color-oklch', () => {
     convertColor(input, output, 'oklch', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (oklch-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklch', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklch-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklch', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklch-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklch', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklch-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklch', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklch-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklch', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklch-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklch', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklch-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklch', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (oklch-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'oklch', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
@@ -0,0 +1,62 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('convert-color-p3', () => {
+  const input = createMockArray([1, 0, 0]);
+  const output = createMockOutput();
+  bench('convert (p3-to-rgb)', () => {
+    convertColor(input, output, 'p3', 'rgb');
+  });
+  bench('convert (p3-to-hsl)', () => {
+    convertColor(input, output, 'p3', 'hsl');
+  });
+  bench('convert (p3-to-hsv)', () => {
+    convertColor(input, output, 'p3', 'hsv');
+  });
+  bench('convert (p3-to-hwb)', () => {
+    convertColor(input, output, 'p3', 'hwb');
+  });
+  bench('convert (p3-to-lab)', () => {
+    convertColor(input, output, 'p3', 'lab');
+  });
+  bench('convert (p3-to-lch)', () => {
+    convertColor(input, output, 'p3', 'lch');
+  });
+  bench('convert (p3-to-oklab)', () => {
+    convertColor(input, output, 'p3', 'oklab');
+  });
+  bench('convert (p3-to-oklch)', () => {
+    convertColor(input, output, 'p3', 'oklch');
+  });
+  bench('convert (p3-to-lrgb)', () => {
+    convertColor(input, output, 'p3', 'lrgb');
+  });
+  bench('convert (p3-to-xyz50)', () => {
+    convertColor(input, output, 'p3', 'xyz50');
+  });
+  bench('convert (p3-to-xyz65)', () => {
+    convertColor(input, output, 'p3', 'xyz65');
+  });
+  bench('convert (p3-to-lp3)', () => {
+    convertColor(input, output, 'p3', 'lp3');
+  });
+  bench('convert (p3-to-rec2020)', () => {
+    convertColor(input, output, 'p3', 'rec2020');
+  });
+  bench('convert (p3-to-lrec2020)', () => {
+    convertColor(input, output, 'p3', 'lrec2020');
+  });
+  bench('convert (p3-to-a98)', () => {
+    convertColor(input, output, 'p3', 'a98');
+  });
+  bench('convert (p3-to-la98)', () => {
+    convertColor(input, output, 'p3', 'la98');
+  });
+  bench('convert (p3-to-prophoto)', () => {
+    convertColor(input, output, 'p3', 'prophoto');
+  });
+  bench('convert (p3-to-lprophoto)', () => {
+    convertColor(input, output, 'p3', 'lprophoto');
+  });
+});
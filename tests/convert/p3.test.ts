@@ -0,0 +1,97 @@
+import { describe, test } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
+
+describe('convert-color-p3', () => {
+  const input = createMockArray([1, 0, 0]);
+  test('convert (p3-to-rgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'rgb');
+    expectColorCloseTo(output, [1.0931, -0.5435, -0.2538]);
+  });
+  test('convert (p3-to-hsl)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'hsl');
+    expectColorCloseTo(output, [349.3805, 2.9777, 0.2748]);
+  });
+  test('convert (p3-to-hsv)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'hsv');
+    expectColorCloseTo(output, [349.3805, 1.4972, 1.0931]);
+  });
+  test('convert (p3-to-hwb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'hwb');
+    expectColorCloseTo(output, [349.3805, -0.5435, -0.0931]);
+  });
+  test('convert (p3-to-lab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'lab');
+    expectColorCloseTo(output, [0.5621, 94.4732, 98.8894]);
+  });
+  test('convert (p3-to-lch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'lch');
+    expectColorCloseTo(output, [0.5621, 136.7637, 46.3083]);
+  });
+  test('convert (p3-to-oklab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'oklab');
+    expectColorCloseTo(output, [0.6486, 0.262, 0.145]);
+  });
+  test('convert (p3-to-oklch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'oklch');
+    expectColorCloseTo(output, [0.6486, 0.2995, 28.9588]);
+  });
+  test('convert (p3-to-lrgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'lrgb');
+    expectColorCloseTo(output, [1.2249, -0.0421, -0.0196]);
+  });
+  test('convert (p3-to-xyz50)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'xyz50');
+    expectColorCloseTo(output, [0.5151, 0.2412, -0.001]);
+  });
+  test('convert (p3-to-xyz65)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'xyz65');
+    expectColorCloseTo(output, [0.4866, 0.229, 0]);
+  });
+  test('convert (p3-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'lp3');
+    expectColorCloseTo(output, [1, 0, 0]);
+  });
+  test('convert (p3-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'rec2020');
+    expectColorCloseTo(output, [0.8688, 0.175, -0.0054]);
+  });
+  test('convert (p3-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'lrec2020');
+    expectColorCloseTo(output, [0.7539, 0.0458, -0.0012]);
+  });
+  test('convert (p3-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'a98');
+    expectColorCloseTo(output, [0.9357, -0.2367, -0.171]);
+  });
+  test('convert (p3-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'la98');
+    expectColorCloseTo(output, [0.864, -0.0421, -0.0206]);
+  });
+  test('convert (p3-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'prophoto');
+    expectColorCloseTo(output, [0.7748, 0.2512, -0.0203]);
+  });
+  test('convert (p3-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'p3', 'lprophoto');
+    expectColorCloseTo(output, [0.6317, 0.0832, -0.0013]);
+  });
+});
@@ -0,0 +1,19 @@
+import { bench, describe } from 'vite-plus/test';
+import { explainConversion, getConversionPath } from '~/api/convert';
+import { createMockArray } from '../factory';
+
+describe('conversion-path', () => {
+  bench('path (rgb-to-oklch)', () => {
+    getConversionPath('rgb', 'oklch');
+  });
+  bench('path (prophoto-to-hwb)', () => {
+    getConversionPath('prophoto', 'hwb');
+  });
+});
+
+describe('explain-conversion', () => {
+  const input = createMockArray([1, 0, 0]);
+  bench('explain (rgb-to-oklch)', () => {
+    explainConversion(input, 'rgb', 'oklch');
+  });
+});
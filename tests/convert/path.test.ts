@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { convertColor, explainConversion, getConversionPath } from '~/api/convert';
+import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
+
+describe('conversion-path', () => {
+  test('path (same-space)', () => {
+    expect(getConversionPath('rgb', 'rgb')).toEqual(['rgb']);
+  });
+  test('path (direct)', () => {
+    expect(getConversionPath('lab', 'xyz65')).toEqual(['lab', 'xyz65']);
+  });
+  test('path (rgb-to-oklch)', () => {
+    expect(getConversionPath('rgb', 'oklch')).toEqual(['rgb', 'lrgb', 'oklab', 'oklch']);
+  });
+  test('path (p3-to-rec2020)', () => {
+    expect(getConversionPath('p3', 'rec2020')).toEqual([
+      'p3',
+      'lp3',
+      'xyz65',
+      'lrec2020',
+      'rec2020',
+    ]);
+  });
+});
+
+describe('explain-conversion', () => {
+  test('explain (same-space)', () => {
+    const input = createMockArray([0.2, 0.4, 0.6]);
+    const values = explainConversion(input, 'rgb', 'rgb');
+    expect(values).toHaveLength(1);
+    expect(values[0]).not.toBe(input);
+    expectColorCloseTo(values[0], [0.2, 0.4, 0.6]);
+  });
+  test('explain (rgb-to-oklch)', () => {
+    const values = explainConversion(createMockArray([1, 0, 0]), 'rgb', 'oklch');
+    expect(values).toHaveLength(4);
+    expectColorCloseTo(values[0], [1, 0, 0]);
+    expectColorCloseTo(values[1], [1, 0, 0]);
+    expectColorCloseTo(values[2], [0.62796, 0.22486, 0.12585]);
+    expectColorCloseTo(values[3], [0.62796, 0.25768, 29.23387]);
+  });
+  test('explain (matches-dispatch)', () => {
+    const input = createMockArray([0.5, 0.25, 0.75]);
+    const output = createMockOutput();
+    convertColor(input, output, 'hsl', 'lch');
+    const values = explainConversion(input, 'hsl', 'lch');
+    const path = getConversionPath('hsl', 'lch');
+    expect(values).toHaveLength(path.length);
+    expectColorCloseTo(values[path.length - 1], Array.from(output));
+  });
+});
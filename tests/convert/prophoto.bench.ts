@@ -0,0 +1,62 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('convert-color-prophoto', () => {
+  const input = createMockArray([1, 0, 0]);
+  const output = createMockOutput();
+  bench('convert (prophoto-to-rgb)', () => {
+    convertColor(input, output, 'prophoto', 'rgb');
+  });
+  bench('convert (prophoto-to-hsl)', () => {
+    convertColor(input, output, 'prophoto', 'hsl');
+  });
+  bench('convert (prophoto-to-hsv)', () => {
+    convertColor(input, output, 'prophoto', 'hsv');
+  });
+  bench('convert (prophoto-to-hwb)', () => {
+    convertColor(input, output, 'prophoto', 'hwb');
+  });
+  bench('convert (prophoto-to-lab)', () => {
+    convertColor(input, output, 'prophoto', 'lab');
+  });
+  bench('convert (prophoto-to-lch)', () => {
+    convertColor(input, output, 'prophoto', 'lch');
+  });
+  bench('convert (prophoto-to-oklab)', () => {
+    convertColor(input, output, 'prophoto', 'oklab');
+  });
+  bench('convert (prophoto-to-oklch)', () => {
+    convertColor(input, output, 'prophoto', 'oklch');
+  });
+  bench('convert (prophoto-to-lrgb)', () => {
+    convertColor(input, output, 'prophoto', 'lrgb');
+  });
+  bench('convert (prophoto-to-xyz50)', () => {
+    convertColor(input, output, 'prophoto', 'xyz50');
+  });
+  bench('convert (prophoto-to-xyz65)', () => {
+    convertColor(input, output, 'prophoto', 'xyz65');
+  });
+  bench('convert (prophoto-to-p3)', () => {
+    convertColor(input, output, 'prophoto', 'p3');
+  });
+  bench('convert (prophoto-to-lp3)', () => {
+    convertColor(input, output, 'prophoto', 'lp3');
+  });
+  bench('convert (prophoto-to-rec2020)', () => {
+    convertColor(input, output, 'prophoto', 'rec2020');
+  });
+  bench('convert (prophoto-to-lrec2020)', () => {
+    convertColor(input, output, 'prophoto', 'lrec2020');
+  });
+  bench('convert (prophoto-to-a98)', () => {
+    convertColor(input, output, 'prophoto', 'a98');
+  });
+  bench('convert (prophoto-to-la98)', () => {
+    convertColor(input, output, 'prophoto', 'la98');
+  });
+  bench('convert (prophoto-to-lprophoto)', () => {
+    convertColor(input, output, 'prophoto', 'lprophoto');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
+
+describe('convert-color-prophoto', () => {
+  const input = createMockArray([1, 0, 0]);
+  test('convert (prophoto-to-rgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'rgb');
+    expectColorCloseTo(output, [1.3632, -2.9563, -0.1107]);
+  });
+  test('convert (prophoto-to-hsl)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'hsl');
+    expectColorCloseTo(output, [320.4739, 2.7114, -0.7965]);
+  });
+  test('convert (prophoto-to-hsv)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'hsv');
+    expectColorCloseTo(output, [320.4739, 3.1686, 1.3632]);
+  });
+  test('convert (prophoto-to-hwb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'hwb');
+    expectColorCloseTo(output, [320.4739, -2.9563, -0.3632]);
+  });
+  test('convert (prophoto-to-lab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'lab');
+    expectColorCloseTo(output, [0.6061, 139.1667, 104.4976]);
+  });
+  test('convert (prophoto-to-lch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'lch');
+    expectColorCloseTo(output, [0.6061, 174.0319, 36.9022]);
+  });
+  test('convert (prophoto-to-oklab)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'oklab');
+    expectColorCloseTo(output, [0.702, 0.4066, 0.1446]);
+  });
+  test('convert (prophoto-to-oklch)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'oklch');
+    expectColorCloseTo(output, [0.702, 0.4316, 19.5726]);
+  });
+  test('convert (prophoto-to-lrgb)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'lrgb');
+    expectColorCloseTo(output, [2.0341, -0.2288, -0.0086]);
+  });
+  test('convert (prophoto-to-xyz50)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'xyz50');
+    expectColorCloseTo(output, [0.7977, 0.288, 0]);
+  });
+  test('convert (prophoto-to-xyz65)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'xyz65');
+    expectColorCloseTo(output, [0.7556, 0.2683, 0.0039]);
+  });
+  test('convert (prophoto-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'p3');
+    expectColorCloseTo(output, [1.239, -1.9856, 0.1023]);
+  });
+  test('convert (prophoto-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'lp3');
+    expectColorCloseTo(output, [1.6324, -0.1537, 0.0104]);
+  });
+  test('convert (prophoto-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'rec2020');
+    expectColorCloseTo(output, [1.0943, -0.2327, 0.0249]);
+  });
+  test('convert (prophoto-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'lrec2020');
+    expectColorCloseTo(output, [1.2006, -0.0699, 0.0055]);
+  });
+  test('convert (prophoto-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'a98');
+    expectColorCloseTo(output, [1.1614, -0.5114, -0.1595]);
+  });
+  test('convert (prophoto-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'la98');
+    expectColorCloseTo(output, [1.3895, -0.2288, -0.0176]);
+  });
+  test('convert (prophoto-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'prophoto', 'lprophoto');
+    expectColorCloseTo(output, [1, 0, 0]);
+  });
+});
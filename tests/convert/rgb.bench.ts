@@ -35,4 +35,28 @@ describe('convert-color-rgb', () => {
   bench('convert (rgb-to-xyz65)', () => {
     convertColor(input, output, 'rgb', 'xyz65');
   });
+  bench('convert (rgb-to-p3)', () => {
+    convertColor(input, output, 'rgb', 'p3');
+  });
+  bench('convert (rgb-to-lp3)', () => {
+    convertColor(input, output, 'rgb', 'lp3');
+  });
+  bench('convert (rgb-to-rec2020)', () => {
+    convertColor(input, output, 'rgb', 'rec2020');
+  });
+  bench('convert (rgb-to-lrec2020)', () => {
+    convertColor(input, output, 'rgb', 'lrec2020');
+  });
+  bench('convert (rgb-to-a98)', () => {
+    convertColor(input, output, 'rgb', 'a98');
+  });
+  bench('convert (rgb-to-la98)', () => {
+    convertColor(input, output, 'rgb', 'la98');
+  });
+  bench('convert (rgb-to-prophoto)', () => {
+    convertColor(input, output, 'rgb', 'prophoto');
+  });
+  bench('convert (rgb-to-lprophoto)', () => {
+    convertColor(input, output, 'rgb', 'lprophoto');
+  });
 });
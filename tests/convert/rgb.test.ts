@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -27,7 +27,8 @@ describe('convert-color-rgb', () => {
   test('convert (rgb-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'rgb', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (rgb-to-oklab)', () => {
     const output = createMockOutput();
@@ -37,7 +38,8 @@ describe('convert-color-rgb', () => {
   test('convert (rgb-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'rgb', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (rgb-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-rgb', () => {
     convertColor(input, output, 'rgb', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (rgb-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'rgb', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (rgb-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'rgb', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (rgb-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'rgb', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (rgb-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'rgb', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (rgb-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'rgb', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (rgb-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'rgb', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (rgb-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'rgb', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (rgb-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'rgb', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
@@ -0,0 +1,59 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { configureTransfer } from '~/lib/linear';
+import { createMockArray, createMockOutput } from '../factory';
+
+describe('transfer-mode', () => {
+  const input = createMockArray([0.8, 0.3, 0.02]);
+  const output = createMockOutput();
+  bench(
+    'transfer (lut-rgb-to-lrgb)',
+    () => {
+      convertColor(input, output, 'rgb', 'lrgb');
+    },
+    {
+      setup: () => {
+        configureTransfer({ mode: 'lut' });
+      },
+    },
+  );
+  bench(
+    'transfer (exact-rgb-to-lrgb)',
+    () => {
+      convertColor(input, output, 'rgb', 'lrgb');
+    },
+    {
+      setup: () => {
+        configureTransfer({ mode: 'exact' });
+      },
+      teardown: () => {
+        configureTransfer({ mode: 'lut' });
+      },
+    },
+  );
+  bench(
+    'transfer (lut-lrgb-to-rgb)',
+    () => {
+      convertColor(input, output, 'lrgb', 'rgb');
+    },
+    {
+      setup: () => {
+        configureTransfer({ mode: 'lut' });
+      },
+    },
+  );
+  bench(
+    'transfer (exact-lrgb-to-rgb)',
+    () => {
+      convertColor(input, output, 'lrgb', 'rgb');
+    },
+    {
+      setup: () => {
+        configureTransfer({ mode: 'exact' });
+      },
+      teardown: () => {
+        configureTransfer({ mode: 'lut' });
+      },
+    },
+  );
+});
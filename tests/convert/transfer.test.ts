@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, test } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { configureTransfer, getTransfer, lrgbToRgb, rgbToLrgb } from '~/lib/linear';
+import { createMockArray, createMockOutput } from '../factory';
+
+const toLin = (v: number): number =>
+  v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+const toRgb = (v: number): number =>
+  v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+function measureError(): { lin: number; rgb: number; black: number } {
+  const input = new Float32Array(3);
+  const output = new Float32Array(3);
+  let lin = 0;
+  let rgb = 0;
+  let black = 0;
+  for (let k = 0; k <= 20000; k++) {
+    input[0] = k / 20000;
+    const v = input[0];
+    rgbToLrgb(input, output);
+    const expected = toLin(v);
+    lin = Math.max(lin, Math.abs(output[0] - expected));
+    if (v > 0 && v < 0.1) {
+      black = Math.max(black, Math.abs(output[0] - expected) / expected);
+    }
+    lrgbToRgb(input, output);
+    rgb = Math.max(rgb, Math.abs(output[0] - toRgb(v)));
+  }
+  return { lin, rgb, black };
+}
+
+describe('transfer-mode', () => {
+  afterEach(() => {
+    configureTransfer({ mode: 'lut', size: 65536 });
+  });
+  test('transfer (default)', () => {
+    expect(getTransfer()).toEqual({ mode: 'lut', size: 65536 });
+  });
+  test('transfer (lut-65536-error)', () => {
+    const error = measureError();
+    expect(error.lin).toBeLessThan(1e-7);
+    expect(error.rgb).toBeLessThan(5e-7);
+    expect(error.black).toBeLessThan(2e-6);
+  });
+  test('transfer (lut-4096-error)', () => {
+    configureTransfer({ size: 4096 });
+    const error = measureError();
+    expect(error.lin).toBeLessThan(1e-7);
+    expect(error.rgb).toBeLessThan(2e-5);
+    expect(error.black).toBeLessThan(3e-5);
+  });
+  test('transfer (lut-256-error)', () => {
+    configureTransfer({ size: 256 });
+    const error = measureError();
+    expect(error.lin).toBeLessThan(1e-5);
+    expect(error.rgb).toBeGreaterThan(1e-3);
+    expect(error.rgb).toBeLessThan(2e-3);
+  });
+  test('transfer (exact-error)', () => {
+    configureTransfer({ mode: 'exact' });
+    const error = measureError();
+    expect(error.lin).toBeLessThan(6e-8);
+    expect(error.rgb).toBeLessThan(6e-8);
+    expect(error.black).toBeLessThan(1e-7);
+  });
+  test('transfer (exact-dispatch)', () => {
+    configureTransfer({ mode: 'exact' });
+    const output = createMockOutput();
+    convertColor(createMockArray([0.5, 0.04, 0.01]), output, 'rgb', 'lrgb');
+    expect(output[0]).toBe(Math.fround(toLin(0.5)));
+    expect(output[1]).toBe(Math.fround(toLin(Math.fround(0.04))));
+    expect(output[2]).toBe(Math.fround(toLin(Math.fround(0.01))));
+  });
+  test('transfer (mode-only)', () => {
+    configureTransfer({ size: 1024 });
+    configureTransfer({ mode: 'exact' });
+    expect(getTransfer()).toEqual({ mode: 'exact', size: 1024 });
+  });
+  test('transfer (invalid-size)', () => {
+    expect(() => {
+      configureTransfer({ size: 1 });
+    }).toThrow('lut size must be an integer of at least 2');
+    expect(() => {
+      configureTransfer({ size: 100.5 });
+    }).toThrow('lut size must be an integer of at least 2');
+    expect(getTransfer().size).toBe(65536);
+  });
+});
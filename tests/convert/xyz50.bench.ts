@@ -35,4 +35,28 @@ describe('convert-color-xyz50', () => {
   bench('convert (xyz50-to-xyz65)', () => {
     convertColor(input, output, 'xyz50', 'xyz65');
   });
+  bench('convert (xyz50-to-p3)', () => {
+    convertColor(input, output, 'xyz50', 'p3');
+  });
+  bench('convert (xyz50-to-lp3)', () => {
+    convertColor(input, output, 'xyz50', 'lp3');
+  });
+  bench('convert (xyz50-to-rec2020)', () => {
+    convertColor(input, output, 'xyz50', 'rec2020');
+  });
+  bench('convert (xyz50-to-lrec2020)', () => {
+    convertColor(input, output, 'xyz50', 'lrec2020');
+  });
+  bench('convert (xyz50-to-a98)', () => {
+    convertColor(input, output, 'xyz50', 'a98');
+  });
+  bench('convert (xyz50-to-la98)', () => {
+    convertColor(input, output, 'xyz50', 'la98');
+  });
+  bench('convert (xyz50-to-prophoto)', () => {
+    convertColor(input, output, 'xyz50', 'prophoto');
+  });
+  bench('convert (xyz50-to-lprophoto)', () => {
+    convertColor(input, output, 'xyz50', 'lprophoto');
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -32,7 +32,8 @@ describe('convert-color-xyz50', () => {
   test('convert (xyz50-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'xyz50', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (xyz50-to-oklab)', () => {
     const output = createMockOutput();
@@ -42,7 +43,8 @@ describe('convert-color-xyz50', () => {
   test('convert (xyz50-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'xyz50', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (xyz50-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-xyz50', () => {
     convertColor(input, output, 'xyz50', 'xyz65');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (xyz50-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz50', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz50-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz50', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz50-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz50', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz50-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz50', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz50-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz50', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz50-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz50', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz50-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz50', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz50-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz50', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
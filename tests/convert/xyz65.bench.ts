@@ -35,4 +35,28 @@ describe('convert-color-xyz65', () => {
   bench('convert (xyz65-to-xyz50)', () => {
     convertColor(input, output, 'xyz65', 'xyz50');
   });
+  bench('convert (xyz65-to-p3)', () => {
+    convertColor(input, output, 'xyz65', 'p3');
+  });
+  bench('convert (xyz65-to-lp3)', () => {
+    convertColor(input, output, 'xyz65', 'lp3');
+  });
+  bench('convert (xyz65-to-rec2020)', () => {
+    convertColor(input, output, 'xyz65', 'rec2020');
+  });
+  bench('convert (xyz65-to-lrec2020)', () => {
+    convertColor(input, output, 'xyz65', 'lrec2020');
+  });
+  bench('convert (xyz65-to-a98)', () => {
+    convertColor(input, output, 'xyz65', 'a98');
+  });
+  bench('convert (xyz65-to-la98)', () => {
+    convertColor(input, output, 'xyz65', 'la98');
+  });
+  bench('convert (xyz65-to-prophoto)', () => {
+    convertColor(input, output, 'xyz65', 'prophoto');
+  });
+  bench('convert (xyz65-to-lprophoto)', () => {
+    convertColor(input, output, 'xyz65', 'lprophoto');
+  });
 });
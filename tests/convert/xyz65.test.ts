@@ -1,4 +1,4 @@
-import { describe, test } from 'vite-plus/test';
+import { describe, expect, test } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
 import { createMockArray, createMockOutput, expectColorCloseTo } from '../factory';
 
@@ -32,7 +32,8 @@ describe('convert-color-xyz65', () => {
   test('convert (xyz65-to-lch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'xyz65', 'lch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (xyz65-to-oklab)', () => {
     const output = createMockOutput();
@@ -42,7 +43,8 @@ describe('convert-color-xyz65', () => {
   test('convert (xyz65-to-oklch)', () => {
     const output = createMockOutput();
     convertColor(input, output, 'xyz65', 'oklch');
-    expectColorCloseTo(output, [0, 0, 0]);
+    expectColorCloseTo(output.subarray(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
   });
   test('convert (xyz65-to-lrgb)', () => {
     const output = createMockOutput();
@@ -54,4 +56,44 @@ describe('convert-color-xyz65', () => {
     convertColor(input, output, 'xyz65', 'xyz50');
     expectColorCloseTo(output, [0, 0, 0]);
   });
+  test('convert (xyz65-to-p3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz65', 'p3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz65-to-lp3)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz65', 'lp3');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz65-to-rec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz65', 'rec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz65-to-lrec2020)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz65', 'lrec2020');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz65-to-a98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz65', 'a98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz65-to-la98)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz65', 'la98');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz65-to-prophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz65', 'prophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
+  test('convert (xyz65-to-lprophoto)', () => {
+    const output = createMockOutput();
+    convertColor(input, output, 'xyz65', 'lprophoto');
+    expectColorCloseTo(output, [0, 0, 0]);
+  });
 });
@@ -1,8 +1,8 @@
 import { expect } from 'vite-plus/test';
 import { convertColor } from '~/api/convert';
-import type { Color, Space } from '~/lib/types';
+import type { BuiltinSpace, Color, Space } from '~/lib/types';
 
-export const SPACES: readonly Space[] = [
+export const SPACES: readonly BuiltinSpace[] = [
   'rgb',
   'hsl',
   'hsv',
@@ -14,9 +14,17 @@ export const SPACES: readonly Space[] = [
   'lrgb',
   'xyz50',
   'xyz65',
+  'p3',
+  'lp3',
+  'rec2020',
+  'lrec2020',
+  'a98',
+  'la98',
+  'prophoto',
+  'lprophoto',
 ];
 
-export const GAMUTS: Record<Space, { min: number[]; max: number[] }> = {
+export const GAMUTS: Record<BuiltinSpace, { min: number[]; max: number[] }> = {
   rgb: { min: [0, 0, 0], max: [1, 1, 1] },
   hsl: { min: [0, 0, 0], max: [360, 1, 1] },
   hsv: { min: [0, 0, 0], max: [360, 1, 1] },
@@ -28,16 +36,32 @@ export const GAMUTS: Record<Space, { min: number[]; max: number[] }> = {
   lrgb: { min: [0, 0, 0], max: [1, 1, 1] },
   xyz50: { min: [0, 0, 0], max: [1, 1, 1] },
   xyz65: { min: [0, 0, 0], max: [1, 1, 1] },
+  p3: { min: [0, 0, 0], max: [1, 1, 1] },
+  lp3: { min: [0, 0, 0], max: [1, 1, 1] },
+  rec2020: { min: [0, 0, 0], max: [1, 1, 1] },
+  lrec2020: { min: [0, 0, 0], max: [1, 1, 1] },
+  a98: { min: [0, 0, 0], max: [1, 1, 1] },
+  la98: { min: [0, 0, 0], max: [1, 1, 1] },
+  prophoto: { min: [0, 0, 0], max: [1, 1, 1] },
+  lprophoto: { min: [0, 0, 0], max: [1, 1, 1] },
 };
 
-export function generateValidColor(space: Space, target: Float32Array): void {
+export function generateValidColor(space: BuiltinSpace, target: Float32Array): void {
   const gamut = GAMUTS[space];
   for (let i = 0; i < 3; i++) {
     target[i] = utils.range(gamut.min[i], gamut.max[i], 3);
   }
   switch (space) {
     case 'rgb':
-    case 'lrgb': {
+    case 'lrgb':
+    case 'p3':
+    case 'lp3':
+    case 'rec2020':
+    case 'lrec2020':
+    case 'a98':
+    case 'la98':
+    case 'prophoto':
+    case 'lprophoto': {
       target[0] = Math.max(0.005, Math.min(0.995, target[0]));
       target[1] = Math.max(0.005, Math.min(0.995, target[1]));
       target[2] = Math.max(0.005, Math.min(0.995, target[2]));
@@ -98,10 +122,10 @@ export const utils = {
     return utils.round(val, decimals);
   },
   pickDifferent: (
-    arr: readonly Space[],
+    arr: readonly BuiltinSpace[],
   ): {
-    from: Space;
-    to: Space;
+    from: BuiltinSpace;
+    to: BuiltinSpace;
   } => {
     const fromIdx = Math.floor(Math.random() * arr.length);
     const offset = 1 + Math.floor(Math.random() * (arr.length - 1));
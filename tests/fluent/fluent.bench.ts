@@ -0,0 +1,24 @@
+import { bench, describe } from 'vite-plus/test';
+import { cloneColor, createColor, dropColor } from '~/api/color';
+import { formatCss } from '~/api/format';
+import { lighten } from '~/utils/adjust';
+import { color } from '~/utils/fluent';
+import { toGamut } from '~/utils/gamut';
+
+describe('chroma-color', () => {
+  const source = createColor('rgb', new Float32Array([1, 0.5, 0]));
+  const wrapped = color(source);
+  bench('fluent (functional-chain)', () => {
+    const c = cloneColor(source);
+    lighten(c, 0.2);
+    toGamut(c);
+    formatCss(c);
+    dropColor(c);
+  });
+  bench('fluent (chained-wrapper)', () => {
+    wrapped.lighten(0.2).toGamut().css('oklch');
+  });
+  bench('fluent (parse-and-hex)', () => {
+    color('#f80').hex();
+  });
+});
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vite-plus/test';
+import { DEAD_CELL, countMatrix, createColor, mountMatrix, setExhaustion } from '~/api/color';
+import { ChromaColor, color } from '~/utils/fluent';
+import { expectColorToBe } from '../factory';
+
+describe('chroma-color', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('fluent (parse-and-format)', () => {
+    const orange = color('#ff8800');
+    expect(orange).toBeInstanceOf(ChromaColor);
+    expect(orange.space).toBe('rgb');
+    expect(orange.hex()).toBe('#ff8800');
+    expect(String(orange)).toBe(orange.css());
+    expect(orange.css('oklch')).toMatch(/^oklch\(/);
+  });
+  test('fluent (chain-returns-new-instances)', () => {
+    const base = color('#f80');
+    const light = base.lighten(0.2);
+    const css = base.lighten(0.2).toGamut().css('oklch');
+    expect(light).not.toBe(base);
+    expect(light.space).toBe('rgb');
+    expect(light.lightness).toBeGreaterThan(base.lightness);
+    expect(base.hex()).toBe('#ff8800');
+    expect(css).toMatch(/^oklch\(/);
+  });
+  test('fluent (caller-values-untouched)', () => {
+    const source = createColor('rgb', new Float32Array([1, 0.5, 0]));
+    const wrapped = color(source);
+    wrapped.lighten(0.3).rotate(90).invert();
+    wrapped.distance('#000', 'deltaE2000');
+    wrapped.contrast('#fff');
+    expect(source.space).toBe('rgb');
+    expectColorToBe(source.value, [1, 0.5, 0]);
+    expect(wrapped.toColor().value).not.toBe(source.value);
+  });
+  test('fluent (distance-keeps-inputs)', () => {
+    const a = color('#f00');
+    const b = color('#00f');
+    expect(a.distance(b)).toBeGreaterThan(0.5);
+    expect(a.space).toBe('rgb');
+    expect(b.channels).toEqual([0, 0, 1]);
+  });
+  test('fluent (channel-getters)', () => {
+    const white = color('#fff');
+    expect(white.channels).toEqual([1, 1, 1]);
+    expect(white.lightness).toBeCloseTo(1, 4);
+    expect(white.chroma).toBeCloseTo(0, 4);
+    expect(color('#f00').hue).toBeCloseTo(29.23, 1);
+  });
+  test('fluent (space-conversion)', () => {
+    const lab = color('#f80').to('lab');
+    expect(lab.space).toBe('lab');
+    expect(lab.to('rgb').hex()).toBe('#ff8800');
+  });
+  test('fluent (alpha)', () => {
+    const faded = color('#f80').withAlpha(0.5);
+    expect(faded.alpha).toBe(0.5);
+    expect(faded.lighten(0.1).alpha).toBe(0.5);
+  });
+  test('fluent (mix-and-gamut)', () => {
+    const mid = color('#000').mix('#fff', 0.5);
+    expect(mid.space).toBe('rgb');
+    expect(mid.lightness).toBeCloseTo(0.5, 2);
+    const wide = new ChromaColor('oklch', [0.7, 0.4, 150]);
+    expect(wide.inGamut()).toBe(false);
+    expect(wide.toGamut().inGamut()).toBe(true);
+  });
+  test('fluent (equality-and-contrast)', () => {
+    expect(color('#f80').equals('rgb(255 136 0)')).toBe(true);
+    expect(color('#000').contrastRatio('#fff')).toBeCloseTo(21, 1);
+    expect(color('#000').contrast('#fff')).toBeCloseTo(33.7, 1);
+  });
+  test('fluent (pool-balanced)', () => {
+    const before = countMatrix();
+    color('#f80').lighten(0.2).saturate(0.1).mix('#08f').toGamut().css('oklch');
+    color('#f80').contrast('#fff');
+    expect(countMatrix()).toBe(before);
+  });
+  test('fluent (same-instance)', () => {
+    const c = color('#f80');
+    expect(color(c)).toBe(c);
+  });
+});
+
+describe('chroma-adjust', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('fluent (darken)', () => {
+    const base = color('#f80');
+    const dark = base.darken(0.3);
+    expect(dark.space).toBe('rgb');
+    expect(dark.lightness).toBeCloseTo(base.lightness * 0.7, 3);
+    expect(dark.hue).toBeCloseTo(base.hue, 1);
+  });
+  test('fluent (desaturate)', () => {
+    const base = color('#f80');
+    const dull = base.desaturate(0.5);
+    expect(dull.chroma).toBeCloseTo(base.chroma * 0.5, 3);
+    expect(dull.lightness).toBeCloseTo(base.lightness, 3);
+    expect(base.desaturate(1).chroma).toBeCloseTo(0, 3);
+  });
+  test('fluent (whiten)', () => {
+    const base = color('#f80');
+    const pale = base.whiten(0.4);
+    expect(base.to('hwb').channels[1]).toBeCloseTo(0, 3);
+    expect(pale.to('hwb').channels[1]).toBeGreaterThan(0.2);
+    expect(pale.lightness).toBeGreaterThan(base.lightness);
+  });
+  test('fluent (blacken)', () => {
+    const base = color('#f80');
+    const deep = base.blacken(0.4);
+    expect(base.to('hwb').channels[2]).toBeCloseTo(0, 3);
+    expect(deep.to('hwb').channels[2]).toBeGreaterThan(0.2);
+    expect(deep.lightness).toBeLessThan(base.lightness);
+  });
+  test('fluent (rotate)', () => {
+    const base = color('#b08070');
+    expect(base.rotate(40).hue).toBeCloseTo(base.hue + 40, 0);
+    expect(base.rotate(-40).hue).toBeCloseTo(base.hue + 320, 0);
+    expect(base.rotate(360).hex()).toBe('#b08070');
+  });
+});
+
+describe('chroma-pool', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  afterEach(() => {
+    setExhaustion('dead');
+    mountMatrix(2048);
+  });
+  test('fluent (release-on-throw)', () => {
+    const orange = color('#f80');
+    setExhaustion('throw');
+    mountMatrix(1);
+    expect(() => orange.mix('#08f')).toThrow('matrix pool is exhausted');
+    expect(countMatrix()).toBe(1);
+    expect(orange.lighten(0.1).hex()).toBe(color('#f80').lighten(0.1).hex());
+  });
+  test('fluent (dead-cell-borrow)', () => {
+    const orange = color('#f80');
+    const dead = Array.from(DEAD_CELL);
+    mountMatrix(0);
+    expect(() => orange.lighten(0.2)).toThrow('matrix pool is exhausted');
+    expect(() => orange.hex()).toThrow('matrix pool is exhausted');
+    mountMatrix(1);
+    expect(() => orange.mix('#08f')).toThrow('matrix pool is exhausted');
+    expect(countMatrix()).toBe(1);
+    expect(Array.from(DEAD_CELL)).toEqual(dead);
+  });
+  test('fluent (dead-cell-input)', () => {
+    expect(() => color({ space: 'rgb', value: DEAD_CELL, alpha: 1 })).toThrow(
+      'color is a dead cell',
+    );
+    expect(() => new ChromaColor('rgb', DEAD_CELL)).toThrow('color is a dead cell');
+  });
+});
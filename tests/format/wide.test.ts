@@ -0,0 +1,187 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { formatCss } from '~/api/format';
+import { createMockColor } from '../factory';
+
+describe('format-css-p3', () => {
+  test('format p3', () => {
+    const color = createMockColor('p3', [1, 0, 0.5]);
+    expect(formatCss(color)).toBe('color(display-p3 1 0 0.5)');
+  });
+  test('format (p3-min)', () => {
+    const color = createMockColor('p3', [0, 0, 0]);
+    expect(formatCss(color)).toBe('color(display-p3 0 0 0)');
+  });
+  test('format (p3-max)', () => {
+    const color = createMockColor('p3', [1, 1, 1]);
+    expect(formatCss(color)).toBe('color(display-p3 1 1 1)');
+  });
+  test('format (p3-alpha)', () => {
+    const color = createMockColor('p3', [0, 0, 0], 0.5);
+    expect(formatCss(color)).toBe('color(display-p3 0 0 0 / 0.5)');
+  });
+  test('format (p3-none)', () => {
+    const color = createMockColor('p3', [0.5, NaN, 0.5]);
+    expect(formatCss(color)).toBe('color(display-p3 0.5 none 0.5)');
+  });
+});
+
+describe('format-css-lp3', () => {
+  test('format lp3', () => {
+    const color = createMockColor('lp3', [1, 0, 0.5]);
+    expect(formatCss(color)).toBe('color(display-p3-linear 1 0 0.5)');
+  });
+  test('format (lp3-min)', () => {
+    const color = createMockColor('lp3', [0, 0, 0]);
+    expect(formatCss(color)).toBe('color(display-p3-linear 0 0 0)');
+  });
+  test('format (lp3-max)', () => {
+    const color = createMockColor('lp3', [1, 1, 1]);
+    expect(formatCss(color)).toBe('color(display-p3-linear 1 1 1)');
+  });
+  test('format (lp3-alpha)', () => {
+    const color = createMockColor('lp3', [0, 0, 0], 0.5);
+    expect(formatCss(color)).toBe('color(display-p3-linear 0 0 0 / 0.5)');
+  });
+  test('format (lp3-none)', () => {
+    const color = createMockColor('lp3', [0.5, NaN, 0.5]);
+    expect(formatCss(color)).toBe('color(display-p3-linear 0.5 none 0.5)');
+  });
+});
+
+describe('format-css-rec2020', () => {
+  test('format rec2020', () => {
+    const color = createMockColor('rec2020', [1, 0, 0.5]);
+    expect(formatCss(color)).toBe('color(rec2020 1 0 0.5)');
+  });
+  test('format (rec2020-min)', () => {
+    const color = createMockColor('rec2020', [0, 0, 0]);
+    expect(formatCss(color)).toBe('color(rec2020 0 0 0)');
+  });
+  test('format (rec2020-max)', () => {
+    const color = createMockColor('rec2020', [1, 1, 1]);
+    expect(formatCss(color)).toBe('color(rec2020 1 1 1)');
+  });
+  test('format (rec2020-alpha)', () => {
+    const color = createMockColor('rec2020', [0, 0, 0], 0.5);
+    expect(formatCss(color)).toBe('color(rec2020 0 0 0 / 0.5)');
+  });
+  test('format (rec2020-none)', () => {
+    const color = createMockColor('rec2020', [0.5, NaN, 0.5]);
+    expect(formatCss(color)).toBe('color(rec2020 0.5 none 0.5)');
+  });
+});
+
+describe('format-css-lrec2020', () => {
+  test('format lrec2020', () => {
+    const color = createMockColor('lrec2020', [1, 0, 0.5]);
+    expect(formatCss(color)).toBe('color(rec2020-linear 1 0 0.5)');
+  });
+  test('format (lrec2020-min)', () => {
+    const color = createMockColor('lrec2020', [0, 0, 0]);
+    expect(formatCss(color)).toBe('color(rec2020-linear 0 0 0)');
+  });
+  test('format (lrec2020-max)', () => {
+    const color = createMockColor('lrec2020', [1, 1, 1]);
+    expect(formatCss(color)).toBe('color(rec2020-linear 1 1 1)');
+  });
+  test('format (lrec2020-alpha)', () => {
+    const color = createMockColor('lrec2020', [0, 0, 0], 0.5);
+    expect(formatCss(color)).toBe('color(rec2020-linear 0 0 0 / 0.5)');
+  });
+  test('format (lrec2020-none)', () => {
+    const color = createMockColor('lrec2020', [0.5, NaN, 0.5]);
+    expect(formatCss(color)).toBe('color(rec2020-linear 0.5 none 0.5)');
+  });
+});
+
+describe('format-css-a98', () => {
+  test('format a98', () => {
+    const color = createMockColor('a98', [1, 0, 0.5]);
+    expect(formatCss(color)).toBe('color(a98-rgb 1 0 0.5)');
+  });
+  test('format (a98-min)', () => {
+    const color = createMockColor('a98', [0, 0, 0]);
+    expect(formatCss(color)).toBe('color(a98-rgb 0 0 0)');
+  });
+  test('format (a98-max)', () => {
+    const color = createMockColor('a98', [1, 1, 1]);
+    expect(formatCss(color)).toBe('color(a98-rgb 1 1 1)');
+  });
+  test('format (a98-alpha)', () => {
+    const color = createMockColor('a98', [0, 0, 0], 0.5);
+    expect(formatCss(color)).toBe('color(a98-rgb 0 0 0 / 0.5)');
+  });
+  test('format (a98-none)', () => {
+    const color = createMockColor('a98', [0.5, NaN, 0.5]);
+    expect(formatCss(color)).toBe('color(a98-rgb 0.5 none 0.5)');
+  });
+});
+
+describe('format-css-la98', () => {
+  test('format la98', () => {
+    const color = createMockColor('la98', [1, 0, 0.5]);
+    expect(formatCss(color)).toBe('color(a98-rgb-linear 1 0 0.5)');
+  });
+  test('format (la98-min)', () => {
+    const color = createMockColor('la98', [0, 0, 0]);
+    expect(formatCss(color)).toBe('color(a98-rgb-linear 0 0 0)');
+  });
+  test('format (la98-max)', () => {
+    const color = createMockColor('la98', [1, 1, 1]);
+    expect(formatCss(color)).toBe('color(a98-rgb-linear 1 1 1)');
+  });
+  test('format (la98-alpha)', () => {
+    const color = createMockColor('la98', [0, 0, 0], 0.5);
+    expect(formatCss(color)).toBe('color(a98-rgb-linear 0 0 0 / 0.5)');
+  });
+  test('format (la98-none)', () => {
+    const color = createMockColor('la98', [0.5, NaN, 0.5]);
+    expect(formatCss(color)).toBe('color(a98-rgb-linear 0.5 none 0.5)');
+  });
+});
+
+describe('format-css-prophoto', () => {
+  test('format prophoto', () => {
+    const color = createMockColor('prophoto', [1, 0, 0.5]);
+    expect(formatCss(color)).toBe('color(prophoto-rgb 1 0 0.5)');
+  });
+  test('format (prophoto-min)', () => {
+    const color = createMockColor('prophoto', [0, 0, 0]);
+    expect(formatCss(color)).toBe('color(prophoto-rgb 0 0 0)');
+  });
+  test('format (prophoto-max)', () => {
+    const color = createMockColor('prophoto', [1, 1, 1]);
+    expect(formatCss(color)).toBe('color(prophoto-rgb 1 1 1)');
+  });
+  test('format (prophoto-alpha)', () => {
+    const color = createMockColor('prophoto', [0, 0, 0], 0.5);
+    expect(formatCss(color)).toBe('color(prophoto-rgb 0 0 0 / 0.5)');
+  });
+  test('format (prophoto-none)', () => {
+    const color = createMockColor('prophoto', [0.5, NaN, 0.5]);
+    expect(formatCss(color)).toBe('color(prophoto-rgb 0.5 none 0.5)');
+  });
+});
+
+describe('format-css-lprophoto', () => {
+  test('format lprophoto', () => {
+    const color = createMockColor('lprophoto', [1, 0, 0.5]);
+    expect(formatCss(color)).toBe('color(prophoto-rgb-linear 1 0 0.5)');
+  });
+  test('format (lprophoto-min)', () => {
+    const color = createMockColor('lprophoto', [0, 0, 0]);
+    expect(formatCss(color)).toBe('color(prophoto-rgb-linear 0 0 0)');
+  });
+  test('format (lprophoto-max)', () => {
+    const color = createMockColor('lprophoto', [1, 1, 1]);
+    expect(formatCss(color)).toBe('color(prophoto-rgb-linear 1 1 1)');
+  });
+  test('format (lprophoto-alpha)', () => {
+    const color = createMockColor('lprophoto', [0, 0, 0], 0.5);
+    expect(formatCss(color)).toBe('color(prophoto-rgb-linear 0 0 0 / 0.5)');
+  });
+  test('format (lprophoto-none)', () => {
+    const color = createMockColor('lprophoto', [0.5, NaN, 0.5]);
+    expect(formatCss(color)).toBe('color(prophoto-rgb-linear 0.5 none 0.5)');
+  });
+});
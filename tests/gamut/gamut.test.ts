@@ -62,6 +62,12 @@ describe('in-gamut', () => {
     expect(inGamut(barelyOutside, 0.0001)).toBe(true);
     expect(inGamut(barelyOutside, 0.000001)).toBe(false);
   });
+  test('gamut (in-gamut-p3)', () => {
+    const inside = createColor('p3', new Float32Array([0.5, 0.5, 0.5]));
+    const outside = createColor('p3', new Float32Array([1, 0, 0]));
+    expect(inGamut(inside)).toBe(true);
+    expect(inGamut(outside)).toBe(false);
+  });
 });
 
 describe('to-gamut', () => {
@@ -77,6 +83,12 @@ describe('to-gamut', () => {
     expect(color.value[2]).toBeCloseTo(30, 1);
     expect(color.value[1]).toBeLessThan(0.4);
   });
+  test('gamut (to-gamut-p3)', () => {
+    const color = createColor('p3', new Float32Array([1, 0, 0]));
+    toGamut(color);
+    expect(color.space).toBe('oklch');
+    expect(inGamut(color)).toBe(true);
+  });
   test('gamut (to-gamut-noop)', () => {
     const color = createColor('rgb', new Float32Array([0.5, 0.5, 0.5]));
     const originalChroma = color.value[1];
@@ -0,0 +1,20 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { carryForward } from '~/api/mix';
+
+const present = new Float32Array([0.2, 0.4, 0.6]);
+const missing = new Float32Array([NaN, 0.4, 0.6]);
+const output = new Float32Array(3);
+const hsl = { space: 'hsl', value: new Float32Array([NaN, 0.5, 0.5]), alpha: 1 } as const;
+
+describe('missing', () => {
+  bench('convert (present)', () => {
+    convertColor(present, output, 'rgb', 'oklch');
+  });
+  bench('convert (missing)', () => {
+    convertColor(missing, output, 'rgb', 'oklch');
+  });
+  bench('carryForward (hue)', () => {
+    carryForward(hsl, output, 'oklch');
+  });
+});
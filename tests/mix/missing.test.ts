@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { clearMatrix } from '~/api/color';
+import { convertColor } from '~/api/convert';
+import { formatCss } from '~/api/format';
+import { carryForward } from '~/api/mix';
+import { parseColor } from '~/api/parse';
+import { createScales, createTints, mixColor } from '~/utils/palette';
+import { expectColorCloseTo } from '../factory';
+
+describe('missing-conversion', () => {
+  test('missing (zero-for-conversion)', () => {
+    const output = new Float32Array(3);
+    convertColor(new Float32Array([NaN, 0.5, 0.5]), output, 'rgb', 'oklab');
+    const expected = new Float32Array(3);
+    convertColor(new Float32Array([0, 0.5, 0.5]), expected, 'rgb', 'oklab');
+    expectColorCloseTo(output, Array.from(expected));
+  });
+  test('missing (powerless-hue)', () => {
+    const output = new Float32Array(3);
+    convertColor(new Float32Array([0.5, 0.5, 0.5]), output, 'rgb', 'oklch');
+    expect(output[1]).toBeCloseTo(0);
+    expect(output[2]).toBeNaN();
+  });
+  test('missing (hue-round-trip)', () => {
+    const output = new Float32Array(3);
+    convertColor(new Float32Array([0.6, 0, NaN]), output, 'oklch', 'rgb');
+    expect(output.every((v) => !Number.isNaN(v))).toBe(true);
+    expect(output[0]).toBeCloseTo(output[2]);
+  });
+  test('missing (format)', () => {
+    const gray = parseColor('oklch(60% 0 none)');
+    expect(formatCss(gray)).toBe('oklch(60% 0 none)');
+    const rgb = { space: 'rgb', value: new Float32Array([NaN, 1, 0]), alpha: 1 } as const;
+    expect(formatCss(rgb, true)).toBe('#00ff00');
+  });
+});
+
+describe('missing-carry-forward', () => {
+  test('carry (hue)', () => {
+    const output = new Float32Array(3);
+    carryForward(parseColor('hsl(none 50% 50%)'), output, 'oklch');
+    expect(output[2]).toBeNaN();
+    carryForward(parseColor('oklch(0.5 0.1 none)'), output, 'lch');
+    expect(output[2]).toBeNaN();
+  });
+  test('carry (lightness)', () => {
+    const output = new Float32Array(3);
+    carryForward(parseColor('lab(none 20 30)'), output, 'oklch');
+    expect(output[0]).toBeNaN();
+    expect(output[1]).toBeGreaterThan(0);
+  });
+  test('carry (reds)', () => {
+    const output = new Float32Array(3);
+    carryForward(parseColor('color(srgb none 0.5 0.2)'), output, 'xyz65');
+    expect(output[0]).toBeNaN();
+    expect(output[1]).toBeGreaterThan(0);
+  });
+  test('carry (unrelated)', () => {
+    const output = new Float32Array(3);
+    carryForward(parseColor('lab(50 none 30)'), output, 'oklch');
+    expect(output.every((v) => !Number.isNaN(v))).toBe(true);
+  });
+  test('carry (powerless-hsl-hwb)', () => {
+    const output = new Float32Array(3);
+    carryForward(parseColor('#fff'), output, 'hsl');
+    expect(output[0]).toBeNaN();
+    carryForward(parseColor('#808080'), output, 'hwb');
+    expect(output[0]).toBeNaN();
+    carryForward(parseColor('#f00'), output, 'hsl');
+    expect(output[0]).toBeCloseTo(0);
+    carryForward(parseColor('hsl(120 0% 50%)'), output, 'hsl');
+    expect(output[0]).toBe(120);
+  });
+  test('carry (color-mix)', () => {
+    const color = parseColor('color-mix(in oklch, hsl(none 50% 50%), oklch(0.7 0.1 200))');
+    expect(color.value[2]).toBeCloseTo(200);
+  });
+});
+
+describe('missing-interpolation', () => {
+  test('mixColor (carry)', () => {
+    const a = parseColor('oklch(0.5 0.1 none)');
+    const b = parseColor('oklch(0.7 0.2 120)');
+    mixColor(a, b, 0.5);
+    expectColorCloseTo(a.value, [0.6, 0.15, 120]);
+  });
+  test('mixColor (both-missing)', () => {
+    const a = parseColor('oklch(0.5 0.1 none / none)');
+    const b = parseColor('oklch(0.7 0.2 none / none)');
+    mixColor(a, b, 0.5);
+    expect(a.value[2]).toBeNaN();
+    expect(a.alpha).toBeNaN();
+  });
+  test('createScales (carry)', () => {
+    const scale = createScales(
+      [parseColor('oklch(0.2 0 none)'), parseColor('oklch(0.8 0.1 40)')],
+      3,
+    );
+    expect(scale[0].value[2]).toBeCloseTo(40);
+    expect(scale[1].value[2]).toBeCloseTo(40);
+    clearMatrix();
+  });
+  test('createTints (keeps-hue)', () => {
+    const red = parseColor('oklch(0.6 0.2 30)');
+    const tints = createTints(red, 3);
+    expect(tints[1].value[2]).toBeCloseTo(30);
+    expect(tints[2].value[2]).toBeCloseTo(30);
+    clearMatrix();
+  });
+});
@@ -0,0 +1,24 @@
+import { bench, describe } from 'vite-plus/test';
+import { clearMatrix } from '~/api/color';
+import { colorMix } from '~/api/mix';
+import { parseColor } from '~/api/parse';
+
+const red = { space: 'rgb', value: new Float32Array([1, 0, 0]), alpha: 1 } as const;
+const blue = { space: 'rgb', value: new Float32Array([0, 0, 1]), alpha: 0.5 } as const;
+
+describe('color-mix', () => {
+  bench('color-mix (srgb)', () => {
+    parseColor('color-mix(in srgb, red, blue)');
+  });
+  bench('color-mix (oklch-longer)', () => {
+    parseColor('color-mix(in oklch longer hue, red 30%, blue)');
+  });
+  bench('colorMix (oklab)', () => {
+    colorMix('oklab', red, 0.3, blue);
+    clearMatrix();
+  });
+  bench('colorMix (lch-increasing)', () => {
+    colorMix('lch', red, undefined, blue, undefined, 'increasing');
+    clearMatrix();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { clearMatrix } from '~/api/color';
+import { colorMix } from '~/api/mix';
+import { parseColor } from '~/api/parse';
+import { parseColorStrict, tryParseColor } from '~/api/strict';
+import { findColors } from '~/utils/scan';
+import { expectColorCloseTo } from '../factory';
+
+const red = { space: 'rgb', value: new Float32Array([1, 0, 0]), alpha: 1 } as const;
+const blue = { space: 'rgb', value: new Float32Array([0, 0, 1]), alpha: 1 } as const;
+
+const expectError = (input: string, reason: string): void => {
+  expect(parseColorStrict(input)).toMatchObject({ ok: false, error: { reason } });
+};
+
+describe('color-mix', () => {
+  test('color-mix (srgb)', () => {
+    const color = parseColor('color-mix(in srgb, red, blue)');
+    expect(color.space).toBe('rgb');
+    expectColorCloseTo(color.value, [0.5, 0, 0.5]);
+  });
+  test('color-mix (default-oklab)', () => {
+    expect(parseColor('color-mix(red, blue)').space).toBe('oklab');
+  });
+  test('color-mix (percentages)', () => {
+    expectColorCloseTo(parseColor('color-mix(in srgb, red 25%, blue)').value, [0.25, 0, 0.75]);
+    expectColorCloseTo(parseColor('color-mix(in srgb, 25% red, blue)').value, [0.25, 0, 0.75]);
+    expectColorCloseTo(parseColor('color-mix(in srgb, red, blue 25%)').value, [0.75, 0, 0.25]);
+  });
+  test('color-mix (normalized)', () => {
+    const color = parseColor('color-mix(in srgb, red 60%, blue 60%)');
+    expectColorCloseTo(color.value, [0.5, 0, 0.5]);
+    expect(color.alpha).toBe(1);
+  });
+  test('color-mix (alpha-multiplier)', () => {
+    const color = parseColor('color-mix(in srgb, red 20%, blue 20%)');
+    expectColorCloseTo(color.value, [0.5, 0, 0.5]);
+    expect(color.alpha).toBeCloseTo(0.4);
+  });
+  test('color-mix (premultiplied)', () => {
+    const color = parseColor('color-mix(in srgb, rgb(255 0 0 / 0), blue)');
+    expectColorCloseTo(color.value, [0, 0, 1]);
+    expect(color.alpha).toBeCloseTo(0.5);
+  });
+  test('color-mix (shorter-hue)', () => {
+    const color = parseColor('color-mix(in hsl, hsl(350 50% 50%), hsl(30 50% 50%))');
+    expectColorCloseTo(color.value, [10, 0.5, 0.5]);
+  });
+  test('color-mix (longer-hue)', () => {
+    const color = parseColor('color-mix(in hsl longer hue, hsl(350 50% 50%), hsl(30 50% 50%))');
+    expectColorCloseTo(color.value, [190, 0.5, 0.5]);
+  });
+  test('color-mix (increasing-hue)', () => {
+    const color = parseColor('color-mix(in lch increasing hue, lch(50 30 300), lch(50 30 60))');
+    expectColorCloseTo(color.value, [0.5, 30, 0]);
+  });
+  test('color-mix (decreasing-hue)', () => {
+    const color = parseColor('color-mix(in lch decreasing hue, lch(50 30 60), lch(50 30 300))');
+    expectColorCloseTo(color.value, [0.5, 30, 0]);
+    const back = parseColor('color-mix(in lch decreasing hue, lch(50 30 300), lch(50 30 60))');
+    expectColorCloseTo(back.value, [0.5, 30, 180]);
+  });
+  test('color-mix (oklch-longer)', () => {
+    const color = parseColor('color-mix(in oklch longer hue, red 30%, blue)');
+    expect(color.space).toBe('oklch');
+    expect(color.value[2]).toBeCloseTo(193.6, 0);
+  });
+  test('color-mix (missing-components)', () => {
+    const color = parseColor('color-mix(in oklch, oklch(0.5 none 120), oklch(0.7 0.2 none))');
+    expectColorCloseTo(color.value, [0.6, 0.2, 120]);
+    const both = parseColor('color-mix(in oklch, oklch(0.5 0.1 none), oklch(0.7 0.2 none))');
+    expect(both.value[2]).toBeNaN();
+  });
+  test('color-mix (spaces)', () => {
+    expect(parseColor('color-mix(in lab, red, blue)').space).toBe('lab');
+    expect(parseColor('color-mix(in xyz, red, blue)').space).toBe('xyz65');
+    expect(parseColor('color-mix(in display-p3, red, blue)').space).toBe('p3');
+    expect(parseColor('color-mix(in srgb-linear, red, blue)').space).toBe('lrgb');
+  });
+  test('color-mix (nested)', () => {
+    const color = parseColor('color-mix(in srgb, color-mix(in srgb, red, blue), white)');
+    expectColorCloseTo(color.value, [0.75, 0.5, 0.75]);
+  });
+  test('color-mix (errors)', () => {
+    expectError(
+      'color-mix(in srgb longer hue, red, blue)',
+      'hue interpolation needs a polar space',
+    );
+    expectError('color-mix(in nope, red, blue)', 'unknown color space');
+    expectError('color-mix(in srgb red, blue)', 'expected ,');
+    expectError('color-mix(in srgb, red)', 'expected ,');
+    expectError('color-mix(in srgb, red, blue, lime)', 'too many arguments');
+    expectError('color-mix(in srgb, red 0%, blue 0%)', 'percentages cannot both be zero');
+    expectError('color-mix(in srgb, red 120%, blue)', 'percentage must be between 0% and 100%');
+    expectError('color-mix(in srgb, red blue, lime)', 'expected a percentage');
+  });
+  test('color-mix (prototype-keys)', () => {
+    expectError('color-mix(in constructor, red, blue)', 'unknown color space');
+    expectError('color-mix(in toString, red, blue)', 'unknown color space');
+    expectError('color-mix(in oklch constructor hue, red, blue)', 'expected ,');
+    expect(tryParseColor('color-mix(in constructor, red, blue)')).toBeNull();
+    expectColorCloseTo(parseColor('color-mix(in constructor, red, blue)').value, [0, 0, 0]);
+    const matches = findColors('a { color: color-mix(in constructor, red, blue) }');
+    expect(matches.map((m) => m.text)).toEqual(['red', 'blue']);
+  });
+  test('color-mix (lenient-invalid)', () => {
+    expectColorCloseTo(parseColor('color-mix(in nope, red, blue)').value, [0, 0, 0]);
+  });
+});
+
+describe('colorMix', () => {
+  test('colorMix (defaults)', () => {
+    const color = colorMix('rgb', red, undefined, blue);
+    expect(color.space).toBe('rgb');
+    expectColorCloseTo(color.value, [0.5, 0, 0.5]);
+    clearMatrix();
+  });
+  test('colorMix (weights)', () => {
+    expectColorCloseTo(colorMix('rgb', red, 0.25, blue).value, [0.25, 0, 0.75]);
+    expect(colorMix('rgb', red, 0.1, blue, 0.1).alpha).toBeCloseTo(0.2);
+    clearMatrix();
+  });
+  test('colorMix (inputs-untouched)', () => {
+    colorMix('oklch', red, undefined, blue, undefined, 'longer');
+    expect(red.space).toBe('rgb');
+    expectColorCloseTo(red.value, [1, 0, 0]);
+    clearMatrix();
+  });
+  test('colorMix (powerless-hue)', () => {
+    const white = { space: 'rgb', value: new Float32Array([1, 1, 1]), alpha: 1 } as const;
+    expectColorCloseTo(colorMix('hsl', white, 0.5, blue).value, [240, 0.5, 0.75]);
+    expectColorCloseTo(colorMix('hwb', white, 0.5, blue).value, [240, 0.5, 0]);
+    const css = parseColor('color-mix(in hsl, white, blue)');
+    expectColorCloseTo(css.value, [240, 0.5, 0.75]);
+  });
+  test('colorMix (hue-method)', () => {
+    const a = { space: 'hsl', value: new Float32Array([350, 0.5, 0.5]), alpha: 1 } as const;
+    const b = { space: 'hsl', value: new Float32Array([30, 0.5, 0.5]), alpha: 1 } as const;
+    expect(colorMix('hsl', a, undefined, b).value[0]).toBeCloseTo(10);
+    expect(colorMix('hsl', a, undefined, b, undefined, 'longer').value[0]).toBeCloseTo(190);
+    expect(colorMix('hsl', a, undefined, b, undefined, 'increasing').value[0]).toBeCloseTo(10);
+    expect(colorMix('hsl', a, undefined, b, undefined, 'decreasing').value[0]).toBeCloseTo(190);
+    clearMatrix();
+  });
+  test('colorMix (errors)', () => {
+    expect(() => colorMix('rgb', red, 0, blue, 0)).toThrow('mix percentages cannot both be zero');
+    expect(() => colorMix('rgb', red, 1.5, blue)).toThrow(
+      'mix percentages must be between 0 and 1',
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { bench, describe } from 'vite-plus/test';
+import { formatCss } from '~/api/format';
+import { parseColor } from '~/api/parse';
+
+describe('named', () => {
+  const color = parseColor('#663399');
+  bench('named (parse-color)', () => {
+    parseColor('rebeccapurple');
+  });
+  bench('named (parse-hex)', () => {
+    parseColor('#663399');
+  });
+  bench('named (format-css-as-name)', () => {
+    formatCss(color, false, 2, true);
+  });
+  bench('named (format-css)', () => {
+    formatCss(color);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, test } from 'vite-plus/test';
+import { formatCss } from '~/api/format';
+import { NAMED_COLORS, findNamedColor, getColorName, setCurrentColor } from '~/api/named';
+import { parseColor } from '~/api/parse';
+import { parseColorStrict, tryParseColor } from '~/api/strict';
+import { findColors } from '~/utils/scan';
+import { expectColorCloseTo } from '../factory';
+
+describe('named-parse', () => {
+  afterEach(() => {
+    setCurrentColor(null);
+  });
+  test('named (table)', () => {
+    expect(Object.keys(NAMED_COLORS)).toHaveLength(148);
+  });
+  test('named (parse-color)', () => {
+    const color = parseColor('rebeccapurple');
+    expect(color.space).toBe('rgb');
+    expectColorCloseTo(color.value, [0x66 / 255, 0x33 / 255, 0x99 / 255]);
+    expect(color.alpha).toBe(1);
+  });
+  test('named (case-and-space)', () => {
+    expectColorCloseTo(parseColor('  CornflowerBlue ').value, [0x64 / 255, 0x95 / 255, 0xed / 255]);
+  });
+  test('named (transparent)', () => {
+    const color = parseColor('transparent');
+    expectColorCloseTo(color.value, [0, 0, 0]);
+    expect(color.alpha).toBe(0);
+  });
+  test('named (currentcolor)', () => {
+    const source = { space: 'oklch', value: new Float32Array([0.5, 0.1, 30]), alpha: 0.8 } as const;
+    setCurrentColor(() => source);
+    const color = parseColor('currentColor');
+    expect(color.space).toBe('oklch');
+    expect(color.value).not.toBe(source.value);
+    expectColorCloseTo(color.value, [0.5, 0.1, 30]);
+    expect(color.alpha).toBeCloseTo(0.8);
+  });
+  test('named (currentcolor-unresolved)', () => {
+    expect(findNamedColor('currentcolor')).toBeNull();
+    expect(parseColorStrict('currentcolor')).toEqual({
+      ok: false,
+      error: { position: 0, reason: 'currentcolor is not resolved' },
+    });
+  });
+  test('named (strict)', () => {
+    expectColorCloseTo(tryParseColor('red')!.value, [1, 0, 0]);
+    expect(tryParseColor('red blue')).toBeNull();
+    expect(tryParseColor('banana')).toBeNull();
+  });
+  test('named (unknown)', () => {
+    expect(findNamedColor('banana')).toBeNull();
+  });
+  test('named (prototype-keys)', () => {
+    expect(findNamedColor('constructor')).toBeNull();
+    expect(findNamedColor('__proto__')).toBeNull();
+    expect(tryParseColor('constructor')).toBeNull();
+    expectColorCloseTo(parseColor('valueOf').value, [0, 0, 0]);
+    expect(findColors('a { color: constructor; }')).toEqual([]);
+  });
+});
+
+describe('named-format', () => {
+  test('named (get-color-name)', () => {
+    expect(getColorName(parseColor('#663399'))).toBe('rebeccapurple');
+    expect(getColorName(parseColor('#0ff'))).toBe('aqua');
+    expect(getColorName(parseColor('#808080'))).toBe('gray');
+    expect(getColorName(parseColor('#663398'))).toBeNull();
+    expect(getColorName(parseColor('rgb(102 51 153 / 0.5)'))).toBeNull();
+    expect(getColorName(parseColor('transparent'))).toBe('transparent');
+    expect(getColorName(parseColor('hsl(0 100% 50%)'))).toBeNull();
+  });
+  test('named (format-css-as-name)', () => {
+    expect(formatCss(parseColor('#ff6347'), false, 2, true)).toBe('tomato');
+    expect(formatCss(parseColor('#ff6347'), true, 2, true)).toBe('tomato');
+    expect(formatCss(parseColor('#ff6348'), true, 2, true)).toBe('#ff6348');
+    expect(formatCss(parseColor('#ff6347'))).toBe('rgb(255 99 71)');
+  });
+  test('named (round-trip)', () => {
+    for (const name of Object.keys(NAMED_COLORS)) {
+      const back = formatCss(parseColor(name), false, 2, true);
+      expect(parseColor(back).value).toEqual(parseColor(name).value);
+    }
+  });
+});
@@ -0,0 +1,17 @@
+import { bench, describe } from 'vite-plus/test';
+import { parseColor } from '~/api/parse';
+
+describe('relative', () => {
+  bench('relative (identity)', () => {
+    parseColor('oklch(from oklch(60% 0.1 30) l c h)');
+  });
+  bench('relative (converted-origin)', () => {
+    parseColor('oklch(from #ff0000 l c h)');
+  });
+  bench('relative (calc-hue)', () => {
+    parseColor('oklch(from oklch(60% 0.1 350) l c calc(h + 30))');
+  });
+  bench('relative (min-max-clamp)', () => {
+    parseColor('oklch(from oklch(90% 0.3 40) min(l, 0.5) clamp(0, c, 0.2) max(h, 90))');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { parseColor } from '~/api/parse';
+import { parseColorStrict, tryParseColor } from '~/api/strict';
+import { expectColorCloseTo } from '../factory';
+
+describe('relative-channels', () => {
+  test('relative (identity)', () => {
+    const color = parseColor('oklch(from oklch(60% 0.1 30) l c h)');
+    expect(color.space).toBe('oklch');
+    expectColorCloseTo(color.value, [0.6, 0.1, 30]);
+  });
+  test('relative (converted-origin)', () => {
+    const color = parseColor('oklch(from #ff0000 l c h)');
+    const expected = new Float32Array(3);
+    convertColor(new Float32Array([1, 0, 0]), expected, 'rgb', 'oklch');
+    expectColorCloseTo(color.value, Array.from(expected));
+  });
+  test('relative (rgb-scale)', () => {
+    const color = parseColor('rgb(from rgb(255 128 0) b g r)');
+    expectColorCloseTo(color.value, [0, 128 / 255, 1]);
+  });
+  test('relative (hsl-scale)', () => {
+    const color = parseColor('hsl(from hsl(120 40% 60%) h l s)');
+    expectColorCloseTo(color.value, [120, 0.6, 0.4]);
+  });
+  test('relative (color-function)', () => {
+    const color = parseColor('color(from red display-p3 r g b / 0.5)');
+    expect(color.space).toBe('p3');
+    expect(color.alpha).toBe(0.5);
+    expect(color.value[0]).toBeGreaterThan(0.9);
+  });
+  test('relative (alpha)', () => {
+    expect(parseColor('rgb(from rgb(0 0 0 / 0.3) r g b)').alpha).toBeCloseTo(0.3);
+    expect(parseColor('rgb(from rgb(0 0 0 / 0.3) r g b / calc(alpha * 2))').alpha).toBeCloseTo(0.6);
+  });
+  test('relative (literals)', () => {
+    const color = parseColor('lab(from lab(50 20 30) l 0 none)');
+    expectColorCloseTo(color.value.subarray(0, 2), [0.5, 0]);
+    expect(color.value[2]).toBeNaN();
+  });
+  test('relative (nested-origin)', () => {
+    const color = parseColor(
+      'oklch(from oklch(from oklch(50% 0.1 10) l c calc(h + 10)) l c calc(h + 10))',
+    );
+    expectColorCloseTo(color.value, [0.5, 0.1, 30]);
+  });
+});
+
+describe('relative-calc', () => {
+  test('relative (calc-hue)', () => {
+    const color = parseColor('oklch(from oklch(60% 0.1 350) l c calc(h + 30))');
+    expectColorCloseTo(color.value, [0.6, 0.1, 20]);
+  });
+  test('relative (calc-operators)', () => {
+    const color = parseColor(
+      'lch(from lch(50 40 100) calc(l * 2 - 10) calc(c / 4) calc((h + 20) * 2))',
+    );
+    expectColorCloseTo(color.value, [0.9, 10, 240]);
+  });
+  test('relative (calc-percent)', () => {
+    const color = parseColor('rgb(from rgb(100 100 100) calc(r + 10%) g b)');
+    expectColorCloseTo(color.value, [125.5 / 255, 100 / 255, 100 / 255]);
+  });
+  test('relative (min-max-clamp)', () => {
+    const color = parseColor(
+      'oklch(from oklch(90% 0.3 40) min(l, 0.5) clamp(0, c, 0.2) max(h, 90))',
+    );
+    expectColorCloseTo(color.value, [0.5, 0.2, 90]);
+  });
+  test('relative (missing-origin-channels)', () => {
+    expectColorCloseTo(parseColor('oklch(from white l c calc(h + 30))').value, [1, 0, 30]);
+    expectColorCloseTo(parseColor('oklch(from oklch(60% 0.1 none) l c h)').value, [0.6, 0.1, 0]);
+    expectColorCloseTo(parseColor('hsl(from white h s l)').value, [0, 0, 1]);
+    expect(parseColor('rgb(from rgb(none 0 0 / none) r g b / alpha)').alpha).toBe(0);
+  });
+  test('relative (calc-without-origin)', () => {
+    expectColorCloseTo(tryParseColor('rgb(calc(255 / 5) 0 0)')!.value, [0.2, 0, 0]);
+  });
+});
+
+describe('plain-calc', () => {
+  test('parse (calc-channel)', () => {
+    expectColorCloseTo(parseColor('rgb(calc(255 / 2) 0 0)').value, [0.5, 0, 0]);
+    expectColorCloseTo(parseColor('hsl(calc(120) 50% 50%)').value, [120, 0.5, 0.5]);
+  });
+  test('parse (calc-legacy-and-alpha)', () => {
+    expectColorCloseTo(parseColor('rgb(255, calc(51 * 2), 0)').value, [1, 0.4, 0]);
+    expect(parseColor('rgb(0 0 0 / calc(0.25 * 2))').alpha).toBeCloseTo(0.5);
+  });
+  test('parse (min-max-clamp-channel)', () => {
+    const color = parseColor('oklch(min(0.9, 0.5) clamp(0, 0.3, 0.2) max(40, 90))');
+    expectColorCloseTo(color.value, [0.5, 0.2, 90]);
+    expectColorCloseTo(parseColor('color(srgb calc(0.5 + 0.5) 0 0)').value, [1, 0, 0]);
+  });
+  test('parse (calc-invalid)', () => {
+    const color = parseColor('rgb(calc(255 +) 0 0)');
+    expect(color.space).toBe('rgb');
+    expectColorCloseTo(color.value, [0, 0, 0]);
+  });
+});
+
+describe('relative-errors', () => {
+  const expectError = (input: string, position: number, reason: string): void => {
+    expect(parseColorStrict(input)).toEqual({ ok: false, error: { position, reason } });
+  };
+  test('relative (unknown-keyword)', () => {
+    expectError('rgb(from red r g h)', 17, 'unknown channel keyword');
+  });
+  test('relative (missing-origin)', () => {
+    expectError('rgb(from)', 8, 'expected an origin color');
+    expectError('rgb(from banana r g b)', 9, 'unknown color keyword');
+  });
+  test('relative (legacy)', () => {
+    expectError('rgb(from red r, g, b)', 14, 'cannot mix legacy and modern syntax');
+  });
+  test('relative (calc-errors)', () => {
+    expectError('oklch(from red l c calc(h +))', 27, 'expected a value');
+    expectError('oklch(from red l c calc(h 30))', 26, 'expected an operator');
+    expectError('oklch(from red l c clamp(0, h))', 19, 'clamp needs 3 arguments');
+    expectError('oklch(from red l c sin(h))', 19, 'unsupported math function');
+  });
+  test('relative (lenient-fallback)', () => {
+    const color = parseColor('rgb(from banana r g b)');
+    expectColorCloseTo(color.value, [0, 0, 0]);
+    expect(color.alpha).toBe(1);
+  });
+});
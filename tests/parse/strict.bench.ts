@@ -0,0 +1,21 @@
+import { bench, describe } from 'vite-plus/test';
+import { parseColor } from '~/api/parse';
+import { parseColorStrict, tryParseColor } from '~/api/strict';
+
+describe('strict', () => {
+  bench('strict (hex)', () => {
+    tryParseColor('#ff000080');
+  });
+  bench('strict (rgb-legacy)', () => {
+    tryParseColor('rgba(255, 0, 128, 0.5)');
+  });
+  bench('strict (oklch)', () => {
+    tryParseColor('oklch(60% 0.15 30deg / 0.5)');
+  });
+  bench('strict (invalid)', () => {
+    parseColorStrict('rgb(255, 50%, 0)');
+  });
+  bench('strict (lenient-oklch)', () => {
+    parseColor('oklch(60% 0.15 30deg / 0.5)');
+  });
+});
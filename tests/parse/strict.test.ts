@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { parseColor } from '~/api/parse';
+import { parseColorStrict, tryParseColor } from '~/api/strict';
+import { expectColorCloseTo } from '../factory';
+
+const expectError = (input: string, position: number, reason: string): void => {
+  const result = parseColorStrict(input);
+  expect(result).toEqual({ ok: false, error: { position, reason } });
+};
+
+describe('strict-valid', () => {
+  test('strict (hex)', () => {
+    const color = tryParseColor('#ff000080');
+    expect(color?.space).toBe('rgb');
+    expectColorCloseTo(color!.value, [1, 0, 0]);
+    expect(color?.alpha).toBeCloseTo(128 / 255);
+    expectColorCloseTo(tryParseColor('#f08')!.value, [1, 0, 0x88 / 255]);
+  });
+  test('strict (rgb-modern)', () => {
+    const color = tryParseColor('rgb(255 50% 0 / 40%)');
+    expectColorCloseTo(color!.value, [1, 0.5, 0]);
+    expect(color?.alpha).toBeCloseTo(0.4);
+  });
+  test('strict (rgb-legacy)', () => {
+    const color = tryParseColor('rgba(255, 0, 128, 0.5)');
+    expectColorCloseTo(color!.value, [1, 0, 128 / 255]);
+    expect(color?.alpha).toBe(0.5);
+  });
+  test('strict (hsl-legacy)', () => {
+    const color = tryParseColor('hsl(120, 50%, 25%)');
+    expect(color?.space).toBe('hsl');
+    expectColorCloseTo(color!.value, [120, 0.5, 0.25]);
+  });
+  test('strict (hue-units)', () => {
+    expect(tryParseColor('hsl(0.5turn 50% 50%)')?.value[0]).toBeCloseTo(180);
+    expect(tryParseColor('hwb(200grad 0% 0%)')?.value[0]).toBeCloseTo(180);
+    expect(tryParseColor('lch(50% 0 3.14159rad)')?.value[2]).toBeCloseTo(180, 2);
+    expect(tryParseColor('oklch(0.5 0 -90deg)')?.value[2]).toBeCloseTo(270);
+  });
+  test('strict (lab-references)', () => {
+    expectColorCloseTo(tryParseColor('lab(50 100% -50%)')!.value, [0.5, 125, -62.5]);
+    expectColorCloseTo(tryParseColor('lch(50% 100% 0)')!.value, [0.5, 150, 0]);
+    expectColorCloseTo(tryParseColor('oklab(0.5 100% -100%)')!.value, [0.5, 0.4, -0.4]);
+    expectColorCloseTo(tryParseColor('oklch(70% 40% 120)')!.value, [0.7, 0.16, 120]);
+  });
+  test('strict (e-notation)', () => {
+    expectColorCloseTo(tryParseColor('color(srgb 1e0 5e-1 0)')!.value, [1, 0.5, 0]);
+  });
+  test('strict (color-function)', () => {
+    const color = tryParseColor('color(display-p3-linear 1 0.5 50%)');
+    expect(color?.space).toBe('lp3');
+    expectColorCloseTo(color!.value, [1, 0.5, 0.5]);
+    expect(tryParseColor('color(xyz 0.1 0.2 0.3)')?.space).toBe('xyz65');
+  });
+  test('strict (none)', () => {
+    const color = tryParseColor('oklch(none 0.1 none / none)');
+    expect(color?.value[0]).toBeNaN();
+    expect(color?.value[2]).toBeNaN();
+    expect(color?.alpha).toBeNaN();
+  });
+  test('strict (alpha-clamp)', () => {
+    expect(tryParseColor('rgb(0 0 0 / 1.5)')?.alpha).toBe(1);
+    expect(tryParseColor('rgb(0 0 0 / -20%)')?.alpha).toBe(0);
+  });
+  test('strict (case-and-space)', () => {
+    const color = tryParseColor('  RGB( 255  0  0 )  ');
+    expectColorCloseTo(color!.value, [1, 0, 0]);
+  });
+  test('strict (matches-lenient)', () => {
+    const inputs = ['#336699', 'rgb(10 20 30 / 0.5)', 'hsl(210 40% 60%)', 'oklch(60% 0.15 30)'];
+    for (const input of inputs) {
+      const strict = tryParseColor(input)!;
+      const lenient = parseColor(input);
+      expect(strict.space).toBe(lenient.space);
+      expectColorCloseTo(strict.value, Array.from(lenient.value));
+      expect(strict.alpha).toBeCloseTo(lenient.alpha);
+    }
+  });
+});
+
+describe('strict-invalid', () => {
+  test('strict (unknown-keyword)', () => {
+    expectError('banana', 0, 'unknown color keyword');
+    expect(tryParseColor('banana')).toBeNull();
+  });
+  test('strict (missing-paren)', () => {
+    expectError('rgb(1,2', 7, 'missing )');
+  });
+  test('strict (argument-count)', () => {
+    expectError('rgb(1, 2)', 8, 'expected 3 channels');
+    expectError('rgb(1, 2,)', 9, 'expected a value');
+    expectError('rgb(1 2)', 7, 'expected 3 channels');
+    expectError('rgb(1 2 3 4)', 10, 'expected 3 channels');
+    expectError('rgb(1 2 3 / 4 5)', 14, 'too many arguments');
+    expectError('rgb(1 2 3 /)', 11, 'expected alpha after /');
+  });
+  test('strict (mixed-syntax)', () => {
+    expectError('rgb(1, 2 3)', 9, 'expected ,');
+    expectError('rgb(1 2 3, 4)', 9, 'cannot mix legacy and modern syntax');
+    expectError('rgb(1, 2, 3 / 4)', 12, 'cannot mix legacy and modern syntax');
+    expectError('lab(50, 0, 0)', 6, 'cannot mix legacy and modern syntax');
+  });
+  test('strict (legacy-rules)', () => {
+    expectError('rgb(255, 50%, 0)', 9, 'legacy rgb cannot mix numbers and percentages');
+    expectError('hsl(120, 50, 25%)', 9, 'legacy hsl needs percentages');
+    expectError('rgb(none, 0, 0)', 4, 'none is not allowed in legacy syntax');
+  });
+  test('strict (math-channels)', () => {
+    expectColorCloseTo(tryParseColor('rgb(255, calc(51 * 2), 0)')!.value, [1, 0.4, 0]);
+    expectColorCloseTo(tryParseColor('hsl(calc(60 * 2), 50%, 25%)')!.value, [120, 0.5, 0.25]);
+    expectColorCloseTo(
+      tryParseColor('oklch(min(0.9, 0.5) 0.1 max(40, 90))')!.value,
+      [0.5, 0.1, 90],
+    );
+    expectError('rgb(var(--r) 0 0)', 4, 'expected a number or percentage');
+  });
+  test('strict (units)', () => {
+    expectError('hsl(10px 50% 50%)', 4, 'expected a number or angle for hue');
+    expectError('hsl(10% 50% 50%)', 4, 'expected a number or angle for hue');
+    expectError('rgb(10deg 0 0)', 4, 'expected a number or percentage');
+  });
+  test('strict (hex)', () => {
+    expectError('#12345', 0, 'invalid hex color');
+    expectError('#ggg', 0, 'invalid hex color');
+    expectError('#fff fff', 5, 'unexpected trailing input');
+  });
+  test('strict (misc)', () => {
+    expectError('', 0, 'empty input');
+    expectError('rgb(0 0 0) x', 11, 'unexpected trailing input');
+    expectError('rgbx(0 0 0)', 0, 'unknown color function');
+    expectError('color(foo 0 0 0)', 6, 'unknown color space');
+    expectError('color(0 0 0)', 6, 'expected a color space');
+    expectError('rgb(0 0 0 ; 1)', 10, 'unexpected character');
+    expectError('42', 0, 'expected a color');
+  });
+  test('strict (prototype-keys)', () => {
+    expectError('color(constructor 1 0 0)', 6, 'unknown color space');
+    expectError('color(hasOwnProperty 1 0 0)', 6, 'unknown color space');
+    expectError('constructor(0 0 0)', 0, 'unknown color function');
+    expectError('hsl(1constructor 50% 50%)', 4, 'expected a number or angle for hue');
+    expectError('rgb(from red constructor g b)', 13, 'unknown channel keyword');
+  });
+});
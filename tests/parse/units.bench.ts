@@ -0,0 +1,14 @@
+import { bench, describe } from 'vite-plus/test';
+import { parseColor } from '~/api/parse';
+
+describe('parse-units', () => {
+  bench('parse (hue-turn)', () => {
+    parseColor('hsl(0.5turn 50% 50%)');
+  });
+  bench('parse (oklch-chroma-percent)', () => {
+    parseColor('oklch(70% 40% 120)');
+  });
+  bench('parse (e-notation)', () => {
+    parseColor('color(srgb 1e-3 2.5E-1 1e0)');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { parseColor } from '~/api/parse';
+import { tryParseColor } from '~/api/strict';
+import { expectColorCloseTo } from '../factory';
+
+describe('parse-units-angle', () => {
+  test('parse (hue-turn)', () => {
+    expect(parseColor('hsl(0.5turn 50% 50%)').value[0]).toBeCloseTo(180);
+  });
+  test('parse (hue-rad)', () => {
+    expect(parseColor('oklch(50% 0.1 3.14159265rad)').value[2]).toBeCloseTo(180, 3);
+  });
+  test('parse (hue-grad)', () => {
+    expect(parseColor('hwb(100grad 0% 0%)').value[0]).toBeCloseTo(90);
+  });
+  test('parse (hue-deg)', () => {
+    expect(parseColor('lch(50% 10 -90deg)').value[2]).toBeCloseTo(270);
+  });
+  test('parse (hue-upper)', () => {
+    expect(parseColor('hsl(0.25TURN 50% 50%)').value[0]).toBeCloseTo(90);
+  });
+});
+
+describe('parse-units-percent', () => {
+  test('parse (oklch-chroma-percent)', () => {
+    expectColorCloseTo(parseColor('oklch(70% 40% 120)').value, [0.7, 0.16, 120]);
+  });
+  test('parse (oklab-ab-percent)', () => {
+    expectColorCloseTo(parseColor('oklab(0.5 50% -100%)').value, [0.5, 0.2, -0.4]);
+  });
+  test('parse (lab-ab-percent)', () => {
+    expectColorCloseTo(parseColor('lab(50 100% -20%)').value, [0.5, 125, -25]);
+  });
+  test('parse (lch-chroma-percent)', () => {
+    expectColorCloseTo(parseColor('lch(50% 50% 30)').value, [0.5, 75, 30]);
+  });
+  test('parse (oklab-unitless-lightness)', () => {
+    expectColorCloseTo(parseColor('oklch(0.7 0.1 120)').value, [0.7, 0.1, 120]);
+    expectColorCloseTo(parseColor('oklab(0.5 0.1 0)').value, [0.5, 0.1, 0]);
+    expectColorCloseTo(parseColor('lab(50 0 0)').value, [0.5, 0, 0]);
+  });
+  test('parse (oklab-unitless-lightness-unscaled)', () => {
+    expect(parseColor('oklch(70 0.1 120)').value[0]).toBe(70);
+    expect(parseColor('oklab(50 0 0)').value[0]).toBe(50);
+    expect(tryParseColor('oklch(70 0.1 120)')?.value[0]).toBe(70);
+  });
+  test('parse (color-percent)', () => {
+    expectColorCloseTo(parseColor('color(display-p3 100% 50% 0%)').value, [1, 0.5, 0]);
+    expectColorCloseTo(parseColor('color(srgb 1 0.5 0)').value, [1, 0.5, 0]);
+  });
+});
+
+describe('parse-units-exponent', () => {
+  test('parse (e-notation)', () => {
+    expectColorCloseTo(parseColor('color(srgb 1e-3 2.5E-1 1e0)').value, [0.001, 0.25, 1]);
+  });
+  test('parse (e-notation-sign)', () => {
+    expectColorCloseTo(parseColor('rgb(2.55e+2 1e1 0)').value, [1, 10 / 255, 0]);
+  });
+  test('parse (e-notation-percent)', () => {
+    expect(parseColor('rgb(0 0 0 / 5e1%)').alpha).toBeCloseTo(0.5);
+  });
+  test('parse (matches-strict)', () => {
+    const inputs = [
+      'hsl(0.5turn 50% 50%)',
+      'oklch(70% 40% 120)',
+      'lab(50 100% -20%)',
+      'color(srgb 1e-3 2.5E-1 1e0)',
+      'lch(50% 10 1.5rad)',
+    ];
+    for (const input of inputs) {
+      expectColorCloseTo(parseColor(input).value, Array.from(tryParseColor(input)!.value));
+    }
+  });
+});
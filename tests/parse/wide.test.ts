@@ -0,0 +1,195 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { parseColor } from '~/api/parse';
+import { expectColorCloseTo } from '../factory';
+
+describe('parse-color-p3', () => {
+  test('parse p3', () => {
+    const { space, value } = parseColor('color(display-p3 1 0 0.5)');
+    expect(space).toBe('p3');
+    expectColorCloseTo(value, [1, 0, 0.5]);
+  });
+  test('parse (p3-min)', () => {
+    const { value } = parseColor('color(display-p3 0 0 0)');
+    expectColorCloseTo(value, [0, 0, 0]);
+  });
+  test('parse (p3-max)', () => {
+    const { value } = parseColor('color(display-p3 1 1 1)');
+    expectColorCloseTo(value, [1, 1, 1]);
+  });
+  test('parse (p3-alpha)', () => {
+    const { alpha } = parseColor('color(display-p3 0 0 0 / 0.5)');
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('parse (p3-none)', () => {
+    const { value } = parseColor('color(display-p3 0.5 none 0.5)');
+    expect(value[1]).toBeNaN();
+  });
+});
+
+describe('parse-color-lp3', () => {
+  test('parse lp3', () => {
+    const { space, value } = parseColor('color(display-p3-linear 1 0 0.5)');
+    expect(space).toBe('lp3');
+    expectColorCloseTo(value, [1, 0, 0.5]);
+  });
+  test('parse (lp3-min)', () => {
+    const { value } = parseColor('color(display-p3-linear 0 0 0)');
+    expectColorCloseTo(value, [0, 0, 0]);
+  });
+  test('parse (lp3-max)', () => {
+    const { value } = parseColor('color(display-p3-linear 1 1 1)');
+    expectColorCloseTo(value, [1, 1, 1]);
+  });
+  test('parse (lp3-alpha)', () => {
+    const { alpha } = parseColor('color(display-p3-linear 0 0 0 / 0.5)');
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('parse (lp3-none)', () => {
+    const { value } = parseColor('color(display-p3-linear 0.5 none 0.5)');
+    expect(value[1]).toBeNaN();
+  });
+});
+
+describe('parse-color-rec2020', () => {
+  test('parse rec2020', () => {
+    const { space, value } = parseColor('color(rec2020 1 0 0.5)');
+    expect(space).toBe('rec2020');
+    expectColorCloseTo(value, [1, 0, 0.5]);
+  });
+  test('parse (rec2020-min)', () => {
+    const { value } = parseColor('color(rec2020 0 0 0)');
+    expectColorCloseTo(value, [0, 0, 0]);
+  });
+  test('parse (rec2020-max)', () => {
+    const { value } = parseColor('color(rec2020 1 1 1)');
+    expectColorCloseTo(value, [1, 1, 1]);
+  });
+  test('parse (rec2020-alpha)', () => {
+    const { alpha } = parseColor('color(rec2020 0 0 0 / 0.5)');
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('parse (rec2020-none)', () => {
+    const { value } = parseColor('color(rec2020 0.5 none 0.5)');
+    expect(value[1]).toBeNaN();
+  });
+});
+
+describe('parse-color-lrec2020', () => {
+  test('parse lrec2020', () => {
+    const { space, value } = parseColor('color(rec2020-linear 1 0 0.5)');
+    expect(space).toBe('lrec2020');
+    expectColorCloseTo(value, [1, 0, 0.5]);
+  });
+  test('parse (lrec2020-min)', () => {
+    const { value } = parseColor('color(rec2020-linear 0 0 0)');
+    expectColorCloseTo(value, [0, 0, 0]);
+  });
+  test('parse (lrec2020-max)', () => {
+    const { value } = parseColor('color(rec2020-linear 1 1 1)');
+    expectColorCloseTo(value, [1, 1, 1]);
+  });
+  test('parse (lrec2020-alpha)', () => {
+    const { alpha } = parseColor('color(rec2020-linear 0 0 0 / 0.5)');
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('parse (lrec2020-none)', () => {
+    const { value } = parseColor('color(rec2020-linear 0.5 none 0.5)');
+    expect(value[1]).toBeNaN();
+  });
+});
+
+describe('parse-color-a98', () => {
+  test('parse a98', () => {
+    const { space, value } = parseColor('color(a98-rgb 1 0 0.5)');
+    expect(space).toBe('a98');
+    expectColorCloseTo(value, [1, 0, 0.5]);
+  });
+  test('parse (a98-min)', () => {
+    const { value } = parseColor('color(a98-rgb 0 0 0)');
+    expectColorCloseTo(value, [0, 0, 0]);
+  });
+  test('parse (a98-max)', () => {
+    const { value } = parseColor('color(a98-rgb 1 1 1)');
+    expectColorCloseTo(value, [1, 1, 1]);
+  });
+  test('parse (a98-alpha)', () => {
+    const { alpha } = parseColor('color(a98-rgb 0 0 0 / 0.5)');
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('parse (a98-none)', () => {
+    const { value } = parseColor('color(a98-rgb 0.5 none 0.5)');
+    expect(value[1]).toBeNaN();
+  });
+});
+
+describe('parse-color-la98', () => {
+  test('parse la98', () => {
+    const { space, value } = parseColor('color(a98-rgb-linear 1 0 0.5)');
+    expect(space).toBe('la98');
+    expectColorCloseTo(value, [1, 0, 0.5]);
+  });
+  test('parse (la98-min)', () => {
+    const { value } = parseColor('color(a98-rgb-linear 0 0 0)');
+    expectColorCloseTo(value, [0, 0, 0]);
+  });
+  test('parse (la98-max)', () => {
+    const { value } = parseColor('color(a98-rgb-linear 1 1 1)');
+    expectColorCloseTo(value, [1, 1, 1]);
+  });
+  test('parse (la98-alpha)', () => {
+    const { alpha } = parseColor('color(a98-rgb-linear 0 0 0 / 0.5)');
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('parse (la98-none)', () => {
+    const { value } = parseColor('color(a98-rgb-linear 0.5 none 0.5)');
+    expect(value[1]).toBeNaN();
+  });
+});
+
+describe('parse-color-prophoto', () => {
+  test('parse prophoto', () => {
+    const { space, value } = parseColor('color(prophoto-rgb 1 0 0.5)');
+    expect(space).toBe('prophoto');
+    expectColorCloseTo(value, [1, 0, 0.5]);
+  });
+  test('parse (prophoto-min)', () => {
+    const { value } = parseColor('color(prophoto-rgb 0 0 0)');
+    expectColorCloseTo(value, [0, 0, 0]);
+  });
+  test('parse (prophoto-max)', () => {
+    const { value } = parseColor('color(prophoto-rgb 1 1 1)');
+    expectColorCloseTo(value, [1, 1, 1]);
+  });
+  test('parse (prophoto-alpha)', () => {
+    const { alpha } = parseColor('color(prophoto-rgb 0 0 0 / 0.5)');
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('parse (prophoto-none)', () => {
+    const { value } = parseColor('color(prophoto-rgb 0.5 none 0.5)');
+    expect(value[1]).toBeNaN();
+  });
+});
+
+describe('parse-color-lprophoto', () => {
+  test('parse lprophoto', () => {
+    const { space, value } = parseColor('color(prophoto-rgb-linear 1 0 0.5)');
+    expect(space).toBe('lprophoto');
+    expectColorCloseTo(value, [1, 0, 0.5]);
+  });
+  test('parse (lprophoto-min)', () => {
+    const { value } = parseColor('color(prophoto-rgb-linear 0 0 0)');
+    expectColorCloseTo(value, [0, 0, 0]);
+  });
+  test('parse (lprophoto-max)', () => {
+    const { value } = parseColor('color(prophoto-rgb-linear 1 1 1)');
+    expectColorCloseTo(value, [1, 1, 1]);
+  });
+  test('parse (lprophoto-alpha)', () => {
+    const { alpha } = parseColor('color(prophoto-rgb-linear 0 0 0 / 0.5)');
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('parse (lprophoto-none)', () => {
+    const { value } = parseColor('color(prophoto-rgb-linear 0.5 none 0.5)');
+    expect(value[1]).toBeNaN();
+  });
+});
@@ -0,0 +1,27 @@
+import { bench, describe } from 'vite-plus/test';
+import { mountMatrix } from '~/api/color';
+import { invert, lighten } from '~/utils/adjust';
+import { toGamut } from '~/utils/gamut';
+import { mapPixels } from '~/utils/pixels';
+import { simulateDeficiency } from '~/utils/simulate';
+
+describe('map-pixels', () => {
+  mountMatrix(2048);
+  const image = { data: new Uint8ClampedArray(64 * 64 * 4).map((_, i) => i % 256) };
+  bench('pixels (invert)', () => {
+    mapPixels(image, invert);
+  });
+  bench('pixels (lighten)', () => {
+    mapPixels(image, (color) => {
+      lighten(color, 0.1);
+    });
+  });
+  bench('pixels (simulate-deficiency)', () => {
+    mapPixels(image, (color) => {
+      simulateDeficiency(color, 'deuteranopia');
+    });
+  });
+  bench('pixels (to-gamut)', () => {
+    mapPixels(image, toGamut);
+  });
+});
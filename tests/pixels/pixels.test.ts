@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, test } from 'vite-plus/test';
+import { countMatrix, mountMatrix, mutateColor } from '~/api/color';
+import type { Color, Mutable, Space } from '~/lib/types';
+import { invert, lighten } from '~/utils/adjust';
+import { toGamut } from '~/utils/gamut';
+import { mapPixels } from '~/utils/pixels';
+import { simulateDeficiency } from '~/utils/simulate';
+
+function createRamp(): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(256 * 4);
+  for (let i = 0; i < 256; i++) {
+    data[i * 4] = i;
+    data[i * 4 + 1] = 255 - i;
+    data[i * 4 + 2] = (i * 7) % 256;
+    data[i * 4 + 3] = i;
+  }
+  return data;
+}
+
+describe('map-pixels', () => {
+  beforeEach(() => {
+    mountMatrix(2048);
+  });
+  test('pixels (identity)', () => {
+    const data = createRamp();
+    mapPixels(data, () => {});
+    expect(data).toEqual(createRamp());
+  });
+  test('pixels (round-trip-oklch)', () => {
+    const data = createRamp();
+    mapPixels(data, (color) => {
+      mutateColor(color, 'oklch');
+    });
+    expect(data).toEqual(createRamp());
+  });
+  test('pixels (round-trip-lrgb)', () => {
+    const data = createRamp();
+    mapPixels(data, (color) => {
+      mutateColor(color, 'lrgb');
+    });
+    expect(data).toEqual(createRamp());
+  });
+  test('pixels (image-data)', () => {
+    const image = { data: new Uint8ClampedArray([10, 20, 30, 255]), width: 1, height: 1 };
+    mapPixels(image, invert);
+    expect(Array.from(image.data)).toEqual([245, 235, 225, 255]);
+  });
+  test('pixels (lighten)', () => {
+    const data = new Uint8ClampedArray([0, 0, 0, 128]);
+    mapPixels(data, (color) => {
+      lighten(color, 1);
+    });
+    expect(Array.from(data)).toEqual([255, 255, 255, 128]);
+  });
+  test('pixels (simulate-deficiency)', () => {
+    const data = createRamp();
+    mapPixels(data, (color) => {
+      simulateDeficiency(color, 'achromatopsia');
+    });
+    for (let i = 0; i < data.length; i += 4) {
+      expect(data[i]).toBe(data[i + 1]);
+      expect(data[i + 1]).toBe(data[i + 2]);
+    }
+  });
+  test('pixels (alpha)', () => {
+    const data = new Uint8ClampedArray([255, 0, 0, 200]);
+    mapPixels(data, (color) => {
+      const ref = color as Mutable<Color<Space>>;
+      ref.alpha *= 0.5;
+    });
+    expect(data[3]).toBe(100);
+  });
+  test('pixels (pool-untouched)', () => {
+    const data = new Uint8ClampedArray(4096 * 4).fill(200);
+    const before = countMatrix();
+    mapPixels(data, (color) => {
+      lighten(color, 0.5);
+      toGamut(color);
+    });
+    expect(countMatrix()).toBe(before);
+    expect(data[0]).toBeGreaterThan(200);
+  });
+  test('pixels (partial-pixel)', () => {
+    const data = new Uint8ClampedArray([10, 20, 30, 255, 40, 50]);
+    mapPixels(data, invert);
+    expect(Array.from(data)).toEqual([245, 235, 225, 255, 40, 50]);
+  });
+});
@@ -0,0 +1,23 @@
+import { bench, describe } from 'vite-plus/test';
+import { findColors, replaceColors } from '~/utils/scan';
+
+const CSS = `.button {
+  color: #fff;
+  background: rgb(255 0 0 / 50%);
+  border: 1px solid hsl(120deg 50% 50%);
+  outline-color: rebeccapurple;
+  box-shadow: 0 0 4px color-mix(in oklch, red 30%, blue);
+}
+`.repeat(50);
+
+describe('scan', () => {
+  bench('findColors (stylesheet)', () => {
+    findColors(CSS);
+  });
+  bench('findColors (no-named)', () => {
+    findColors(CSS, { named: false });
+  });
+  bench('replaceColors (uppercase)', () => {
+    replaceColors(CSS, (m) => m.text.toUpperCase());
+  });
+});
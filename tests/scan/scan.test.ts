@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { formatCss } from '~/api/format';
+import { isAccessible } from '~/utils/contrast';
+import type { ColorMatch } from '~/utils/scan';
+import { findColors, replaceColors } from '~/utils/scan';
+import { expectColorCloseTo } from '../factory';
+
+const CSS = `.button {
+  color: #fff;
+  background: rgb(255 0 0 / 50%);
+  border: 1px solid hsl(120deg 50% 50%);
+  outline-color: RebeccaPurple;
+}`;
+
+describe('findColors', () => {
+  test('findColors (offsets)', () => {
+    const matches = findColors(CSS);
+    expect(matches.map((m) => m.text)).toEqual([
+      '#fff',
+      'rgb(255 0 0 / 50%)',
+      'hsl(120deg 50% 50%)',
+      'RebeccaPurple',
+    ]);
+    for (const match of matches) {
+      expect(CSS.slice(match.start, match.end)).toBe(match.text);
+    }
+  });
+  test('findColors (parsed)', () => {
+    const [hex, rgb] = findColors(CSS);
+    expectColorCloseTo(hex.color.value, [1, 1, 1]);
+    expect(rgb.color.alpha).toBeCloseTo(0.5);
+  });
+  test('findColors (nested)', () => {
+    const matches = findColors('a { color: color-mix(in srgb, red, rgb(0 0 255)); }');
+    expect(matches).toHaveLength(1);
+    expect(matches[0].text).toBe('color-mix(in srgb, red, rgb(0 0 255))');
+  });
+  test('findColors (relative)', () => {
+    expect(findColors('--c: oklch(from #f00 l c calc(h + 30));')[0].text).toBe(
+      'oklch(from #f00 l c calc(h + 30))',
+    );
+  });
+  test('findColors (skips-non-colors)', () => {
+    const source = `#header .red-text { color: var(--red); background: url(img/tan.png); }
+$blue: #12345; .x { transform: rotate(tan(45deg)); fill: rgb(var(--r) 0 0); }`;
+    expect(findColors(source)).toEqual([]);
+  });
+  test('findColors (scss)', () => {
+    const source = '$primary: #3366cc;\n.a { color: rgba($primary, 0.5); border-color: lime; }';
+    expect(findColors(source).map((m) => m.text)).toEqual(['#3366cc', 'lime']);
+  });
+  test('findColors (text)', () => {
+    const source = 'const theme = { accent: rgb(0 170 255), muted: gray };';
+    expect(findColors(source).map((m) => m.text)).toEqual(['rgb(0 170 255)', 'gray']);
+  });
+  test('findColors (strings)', () => {
+    const source = `a::before { content: "red"; color: blue; }
+b::after { content: 'it\\'s #fff or rgb(0 0 0)'; background: #000; }`;
+    expect(findColors(source).map((m) => m.text)).toEqual(['blue', '#000']);
+  });
+  test('findColors (hex-outside-values)', () => {
+    const source = '#bad { color: red; } #fade:hover { border: 1px solid #fff }';
+    expect(findColors(source).map((m) => m.text)).toEqual(['red', '#fff']);
+    expect(findColors('#fff')).toEqual([]);
+  });
+  test('findColors (named-option)', () => {
+    expect(findColors('a: red #00f', { named: false }).map((m) => m.text)).toEqual(['#00f']);
+  });
+  test('findColors (named-outside-values)', () => {
+    expect(findColors('Raise a red flag when the tan shade fails.')).toEqual([]);
+    const source = `/* tan: accent */
+.a { color: red; /* was tan */ }
+// keep the red flag
+.b { background: linear-gradient(gold, navy); }`;
+    expect(findColors(source).map((m) => m.text)).toEqual(['red', 'gold', 'navy']);
+  });
+  test('findColors (unbalanced)', () => {
+    expect(findColors('color: rgb(255 0 0; color: blue')).toHaveLength(1);
+  });
+});
+
+describe('replaceColors', () => {
+  test('replaceColors (oklch)', () => {
+    const toOklch = (m: ColorMatch): string => {
+      const value = new Float32Array(3);
+      convertColor(m.color.value, value, m.color.space, 'oklch');
+      return formatCss({ space: 'oklch', value, alpha: m.color.alpha });
+    };
+    const result = replaceColors('a { color: #ff0000; background: white; }', toOklch);
+    expect(result).toMatch(
+      /^a \{ color: oklch\(62\.\d+% [\d.]+ [\d.]+deg\); background: oklch\(100% 0 none\); \}$/,
+    );
+  });
+  test('replaceColors (keep)', () => {
+    const swaps: Record<string, string | undefined> = { red: 'tomato' };
+    expect(replaceColors('color: red; background: blue;', (m) => swaps[m.text])).toBe(
+      'color: tomato; background: blue;',
+    );
+  });
+  test('replaceColors (report)', () => {
+    const white = findColors('color: #fff')[0].color;
+    const failing = findColors('a { color: #eee; } b { color: #333; }').filter(
+      (m) => !isAccessible(m.color, white),
+    );
+    expect(failing.map((m) => m.text)).toEqual(['#eee']);
+  });
+});
@@ -0,0 +1,28 @@
+import { bench, describe } from 'vite-plus/test';
+import { convertColor } from '~/api/convert';
+import { defineRgbSpace } from '~/api/space';
+import { createMockArray, createMockOutput } from '../factory';
+
+defineRgbSpace('dci-p3', {
+  primaries: [
+    [0.68, 0.32],
+    [0.265, 0.69],
+    [0.15, 0.06],
+  ],
+  white: [0.314, 0.351],
+  transfer: 2.6,
+});
+
+describe('define-rgb-space', () => {
+  const input = createMockArray([0.2, 0.5, 0.8]);
+  const output = createMockOutput();
+  bench('space (custom-to-xyz65)', () => {
+    convertColor(input, output, 'dci-p3', 'xyz65');
+  });
+  bench('space (custom-to-oklch)', () => {
+    convertColor(input, output, 'dci-p3', 'oklch');
+  });
+  bench('space (rgb-to-custom)', () => {
+    convertColor(input, output, 'rgb', 'dci-p3');
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, expect, test } from 'vite-plus/test';
+import { createColor, deriveColor, mountMatrix, mutateColor } from '~/api/color';
+import { convertColor } from '~/api/convert';
+import { formatCss } from '~/api/format';
+import { parseColor } from '~/api/parse';
+import { defineRgbSpace, findSpace, registerSpace } from '~/api/space';
+import type { ConvertFn } from '~/lib/types';
+import { lighten } from '~/utils/adjust';
+import { createMockArray, createMockColor, createMockOutput, expectColorCloseTo } from '../factory';
+
+declare module '~/lib/types' {
+  interface SpaceRegistry {
+    'custom-srgb': true;
+    'custom-prophoto': true;
+    'dci-p3': true;
+    'smpte-c': true;
+    cmy: true;
+    lms: true;
+  }
+}
+
+defineRgbSpace('custom-srgb', {
+  primaries: [
+    [0.64, 0.33],
+    [0.3, 0.6],
+    [0.15, 0.06],
+  ],
+  white: [0.3127, 0.329],
+  transfer: 'srgb',
+});
+
+defineRgbSpace('custom-prophoto', {
+  primaries: [
+    [0.734699, 0.265301],
+    [0.159597, 0.840403],
+    [0.036598, 0.000105],
+  ],
+  white: 'd50',
+  transfer: {
+    toLinear: (v) => (v <= 16 / 512 ? v / 16 : v ** 1.8),
+    toGamma: (v) => (v >= 1 / 512 ? v ** (1 / 1.8) : v * 16),
+  },
+});
+
+defineRgbSpace('dci-p3', {
+  primaries: [
+    [0.68, 0.32],
+    [0.265, 0.69],
+    [0.15, 0.06],
+  ],
+  white: [0.314, 0.351],
+  transfer: 2.6,
+});
+
+defineRgbSpace('smpte-c', {
+  primaries: [
+    [0.63, 0.34],
+    [0.31, 0.595],
+    [0.155, 0.07],
+  ],
+  white: 'd65',
+  transfer: 'linear',
+});
+
+describe('define-rgb-space', () => {
+  const input = createMockArray([0.2, 0.5, 0.8]);
+  test('space (matches-srgb)', () => {
+    const expected = createMockOutput();
+    const output = createMockOutput();
+    convertColor(input, expected, 'rgb', 'xyz65');
+    convertColor(input, output, 'custom-srgb', 'xyz65');
+    expectColorCloseTo(output, Array.from(expected), 4);
+  });
+  test('space (matches-prophoto)', () => {
+    const expected = createMockOutput();
+    const output = createMockOutput();
+    convertColor(input, expected, 'prophoto', 'oklch');
+    convertColor(input, output, 'custom-prophoto', 'oklch');
+    expectColorCloseTo(output, Array.from(expected), 3);
+  });
+  test('space (adapts-white)', () => {
+    const output = createMockOutput();
+    convertColor(createMockArray([1, 1, 1]), output, 'dci-p3', 'xyz65');
+    expectColorCloseTo(output, [0.95047, 1, 1.08883], 4);
+  });
+  test('space (round-trip)', () => {
+    const mid = createMockOutput();
+    const output = createMockOutput();
+    convertColor(input, mid, 'dci-p3', 'lab');
+    convertColor(mid, output, 'lab', 'dci-p3');
+    expectColorCloseTo(output, [0.2, 0.5, 0.8], 4);
+  });
+  test('space (linear-transfer)', () => {
+    const output = createMockOutput();
+    convertColor(createMockArray([1, 0, 0]), output, 'smpte-c', 'xyz65');
+    expect(output[1]).toBeCloseTo(0.2124, 3);
+  });
+  test('space (derive-and-mutate)', () => {
+    mountMatrix(2048);
+    const color = createColor('rgb', new Float32Array([0.2, 0.5, 0.8]));
+    const derived = deriveColor(color, 'custom-srgb');
+    expectColorCloseTo(derived.value, [0.2, 0.5, 0.8], 3);
+    mutateColor(derived, 'dci-p3');
+    expect(derived.space).toBe('dci-p3');
+    mutateColor(derived, 'rgb');
+    expectColorCloseTo(derived.value, [0.2, 0.5, 0.8], 3);
+  });
+  test('space (duplicate-id)', () => {
+    expect(() => {
+      defineRgbSpace('custom-srgb', {
+        primaries: [
+          [0.64, 0.33],
+          [0.3, 0.6],
+          [0.15, 0.06],
+        ],
+        white: 'd65',
+      });
+    }).toThrow('already defined');
+  });
+  test('space (singular-primaries)', () => {
+    expect(() => {
+      defineRgbSpace('smpte-c', {
+        primaries: [
+          [0.3, 0.3],
+          [0.3, 0.3],
+          [0.3, 0.3],
+        ],
+        white: 'd65',
+      });
+    }).toThrow('not invertible');
+  });
+});
+
+const invert: ConvertFn = (input, output) => {
+  output[0] = 1 - input[0];
+  output[1] = 1 - input[1];
+  output[2] = 1 - input[2];
+};
+
+registerSpace({
+  id: 'cmy',
+  base: 'rgb',
+  toBase: invert,
+  fromBase: invert,
+  channels: ['c', 'm', 'y'],
+  formatter: (color, precision) =>
+    `cmy(${Array.from(color.value, (v) => v.toFixed(precision)).join(' ')})`,
+  parser: (input) => {
+    const match = /^cmy\(([\d.]+) ([\d.]+) ([\d.]+)\)$/.exec(input);
+    if (!match) return null;
+    const value = new Float32Array([Number(match[1]), Number(match[2]), Number(match[3])]);
+    return { space: 'cmy', value, alpha: 1 };
+  },
+});
+
+registerSpace({
+  id: 'lms',
+  base: 'xyz65',
+  toBase: (input, output) => {
+    const l = input[0];
+    const m = input[1];
+    const s = input[2];
+    output[0] = 1.8600666 * l - 1.1294801 * m + 0.2198983 * s;
+    output[1] = 0.3612229 * l + 0.6388043 * m;
+    output[2] = 1.089064 * s;
+  },
+  fromBase: (input, output) => {
+    const x = input[0];
+    const y = input[1];
+    const z = input[2];
+    output[0] = 0.4002 * x + 0.7076 * y - 0.0808 * z;
+    output[1] = -0.2263 * x + 1.1653 * y + 0.0457 * z;
+    output[2] = 0.9182 * z;
+  },
+  channels: ['l', 'm', 's'],
+});
+
+describe('register-space', () => {
+  test('space (register-convert)', () => {
+    const output = createMockOutput();
+    convertColor(createMockArray([0, 1, 1]), output, 'cmy', 'rgb');
+    expectColorCloseTo(output, [1, 0, 0]);
+    convertColor(createMockArray([1, 0, 0]), output, 'rgb', 'cmy');
+    expectColorCloseTo(output, [0, 1, 1]);
+  });
+  test('space (register-between-custom)', () => {
+    const mid = createMockOutput();
+    const output = createMockOutput();
+    convertColor(createMockArray([0.2, 0.4, 0.6]), mid, 'cmy', 'lms');
+    convertColor(mid, output, 'lms', 'cmy');
+    expectColorCloseTo(output, [0.2, 0.4, 0.6], 3);
+  });
+  test('space (register-formatter)', () => {
+    const color = createMockColor('cmy', [0, 0.5, 1]);
+    expect(formatCss(color, false, 1)).toBe('cmy(0.0 0.5 1.0)');
+  });
+  test('space (register-default-formatter)', () => {
+    const color = createMockColor('lms', [0.5, 0.25, 1], 0.5);
+    expect(formatCss(color)).toBe('color(--lms 0.5 0.25 1 / 0.5)');
+  });
+  test('space (register-parser)', () => {
+    const { space, value } = parseColor('cmy(0 0.5 1)');
+    expect(space).toBe('cmy');
+    expectColorCloseTo(value, [0, 0.5, 1]);
+  });
+  test('space (register-default-parser)', () => {
+    const { space, value, alpha } = parseColor('color(--lms 0.5 0.25 1 / 0.5)');
+    expect(space).toBe('lms');
+    expectColorCloseTo(value, [0.5, 0.25, 1]);
+    expect(alpha).toBeCloseTo(0.5);
+  });
+  test('space (register-unknown-parser)', () => {
+    const { space } = parseColor('color(--unknown 1 1 1)');
+    expect(space).toBe('rgb');
+  });
+  test('space (register-utilities)', () => {
+    mountMatrix(2048);
+    const color = createColor('cmy', new Float32Array([0.5, 0.5, 0.5]));
+    lighten(color, 0.5);
+    mutateColor(color, 'cmy');
+    expect(color.value[0]).toBeLessThan(0.5);
+  });
+  test('space (register-lookup)', () => {
+    expect(findSpace('cmy')?.channels).toEqual(['c', 'm', 'y']);
+    expect(findSpace('dci-p3')?.base).toBe('xyz65');
+    expect(findSpace('rgb')).toBeUndefined();
+  });
+  test('space (register-unknown-base)', () => {
+    expect(() => {
+      registerSpace({
+        id: 'lms',
+        base: 'lms',
+        toBase: invert,
+        fromBase: invert,
+        channels: ['l', 'm', 's'],
+      });
+    }).toThrow('already defined');
+  });
+});
@@ -44,7 +44,7 @@ export default defineConfig({
         'warn',
         {
           allow: [
-            { from: 'lib', name: ['Float32Array'] },
+            { from: 'lib', name: ['Float32Array', 'Float64Array', 'Uint8ClampedArray'] },
             { from: 'file', name: ['Color', 'Space'] },
           ],
           ignoreInferredTypes: true,